@@ -0,0 +1,310 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Archive, ArchiveRestore, Download, Pencil, Plus, Upload } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { CatalogItemDialog, type CatalogCategory, type CatalogItem } from "@/components/catalog-item-dialog"
+
+interface ImportSummary {
+  created: number
+  updated: number
+  errors: { line: number; message: string }[]
+}
+
+const ALL = "all"
+
+export default function AdminCatalogPage() {
+  const { toast } = useToast()
+  const importInput = useRef<HTMLInputElement>(null)
+
+  const [categories, setCategories] = useState<CatalogCategory[]>([])
+  const [items, setItems] = useState<CatalogItem[]>([])
+  const [categoryId, setCategoryId] = useState(ALL)
+  const [query, setQuery] = useState("")
+  const [showArchived, setShowArchived] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+
+  const [editing, setEditing] = useState<CatalogItem | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+
+  const [importFile, setImportFile] = useState<File | null>(null)
+  const [importSummary, setImportSummary] = useState<ImportSummary | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+
+  const loadItems = useCallback(async () => {
+    const params = new URLSearchParams()
+    if (categoryId !== ALL) params.set("categoryId", categoryId)
+    if (query.trim()) params.set("q", query.trim())
+    if (showArchived) params.set("archived", "true")
+
+    try {
+      const response = await fetch(`/api/admin/catalog/items?${params}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error)
+      setCategories(data.categories)
+      setItems(data.items)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message ? error.message : "Failed to load catalog",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [categoryId, query, showArchived, toast])
+
+  useEffect(() => {
+    // Debounce typing in the search box
+    const timer = setTimeout(loadItems, 250)
+    return () => clearTimeout(timer)
+  }, [loadItems])
+
+  const categoryTitle = (id: string) => categories.find((category) => category.id === id)?.title ?? id
+
+  const openEditor = (item: CatalogItem | null) => {
+    setEditing(item)
+    setIsDialogOpen(true)
+  }
+
+  const toggleArchived = async (item: CatalogItem) => {
+    const response = await fetch(`/api/admin/catalog/items/${item.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ archived: !item.archived }),
+    })
+    if (!response.ok) {
+      toast({ title: "Error", description: "Failed to update item", variant: "destructive" })
+      return
+    }
+    toast({ title: item.archived ? "Item restored" : "Item archived", description: item.title })
+    loadItems()
+  }
+
+  // Imports are validated first (dry run) and only applied after confirmation
+  const runImport = async (file: File, dryRun: boolean) => {
+    setIsImporting(true)
+    try {
+      const body = new FormData()
+      body.append("file", file)
+      const response = await fetch(`/api/admin/catalog/import${dryRun ? "?dryRun=true" : ""}`, {
+        method: "POST",
+        body,
+      })
+      const data = await response.json()
+      if (!response.ok && !data.errors) throw new Error(data.error)
+      return data as ImportSummary
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: error instanceof Error && error.message ? error.message : "Please check the file.",
+        variant: "destructive",
+      })
+      return null
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const handleImportFile = async (file: File) => {
+    const summary = await runImport(file, true)
+    if (summary) {
+      setImportFile(file)
+      setImportSummary(summary)
+    }
+  }
+
+  const confirmImport = async () => {
+    if (!importFile) return
+    const summary = await runImport(importFile, false)
+    if (summary && summary.errors.length === 0) {
+      toast({ title: "Catalog imported", description: `${summary.created} created, ${summary.updated} updated` })
+      setImportFile(null)
+      setImportSummary(null)
+      loadItems()
+    }
+  }
+
+  const exportHref = `/api/admin/catalog/export${categoryId !== ALL ? `?categoryId=${categoryId}` : ""}`
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Catalog</CardTitle>
+          <div className="flex gap-2">
+            <a href={exportHref}>
+              <Button variant="outline" size="sm">
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </Button>
+            </a>
+            <Button variant="outline" size="sm" onClick={() => importInput.current?.click()} disabled={isImporting}>
+              <Upload className="h-4 w-4 mr-2" />
+              {isImporting ? "Checking..." : "Import CSV"}
+            </Button>
+            <input
+              ref={importInput}
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) handleImportFile(file)
+                e.target.value = ""
+              }}
+            />
+            <Button size="sm" onClick={() => openEditor(null)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New item
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-4">
+          <Select value={categoryId} onValueChange={setCategoryId}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All categories</SelectItem>
+              {categories.map((category) => (
+                <SelectItem key={category.id} value={category.id}>
+                  {category.icon} {category.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            className="w-64"
+            placeholder="Search title, description, tags"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+          <div className="flex items-center gap-2">
+            <Switch id="show-archived" checked={showArchived} onCheckedChange={setShowArchived} />
+            <Label htmlFor="show-archived">Show archived</Label>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading catalog...</p>
+        ) : items.length === 0 ? (
+          <p className="text-sm text-gray-500">No items match.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead>Tags</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((item) => (
+                <TableRow key={item.id} className={item.archived ? "opacity-60" : undefined}>
+                  <TableCell>
+                    <div className="flex items-center gap-3">
+                      {item.image && (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img src={item.image} alt="" className="h-10 w-10 rounded object-cover" />
+                      )}
+                      <div>
+                        <div className="font-medium">{item.title}</div>
+                        <div className="text-xs text-gray-500 line-clamp-1">{item.description}</div>
+                      </div>
+                    </div>
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">{categoryTitle(item.categoryId)}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {item.tags
+                        .split(",")
+                        .filter(Boolean)
+                        .map((tag) => (
+                          <Badge key={tag} variant="outline" className="text-xs">
+                            {tag}
+                          </Badge>
+                        ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={item.archived ? "secondary" : "default"}>
+                      {item.archived ? "Archived" : "Active"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button variant="ghost" size="sm" onClick={() => openEditor(item)} aria-label="Edit">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => toggleArchived(item)}
+                      aria-label={item.archived ? "Restore" : "Archive"}
+                    >
+                      {item.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <CatalogItemDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        item={editing}
+        categories={categories}
+        defaultCategoryId={categoryId !== ALL ? categoryId : categories[0]?.id ?? ""}
+        onSaved={loadItems}
+      />
+
+      <Dialog open={importSummary !== null} onOpenChange={(open) => !open && setImportSummary(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Import {importFile?.name}</DialogTitle>
+            <DialogDescription>
+              {importSummary?.errors.length
+                ? "Fix these rows and upload the file again. Nothing has been imported."
+                : `${importSummary?.created} items will be created and ${importSummary?.updated} updated.`}
+            </DialogDescription>
+          </DialogHeader>
+          {importSummary && importSummary.errors.length > 0 && (
+            <ul className="max-h-64 overflow-y-auto text-sm text-red-700 space-y-1">
+              {importSummary.errors.map((error, index) => (
+                <li key={index}>
+                  Line {error.line}: {error.message}
+                </li>
+              ))}
+            </ul>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setImportSummary(null)}>
+              Cancel
+            </Button>
+            {importSummary?.errors.length === 0 && (
+              <Button onClick={confirmImport} disabled={isImporting}>
+                {isImporting ? "Importing..." : "Import"}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,45 @@
+import type React from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { ArrowLeft } from "lucide-react"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/app/api/auth/[...nextauth]/route"
+import { hasRole, requiredRoleForPath } from "@/lib/roles"
+
+const sections = [
+  { href: "/admin/users", label: "Users" },
+  { href: "/admin/catalog", label: "Catalog" },
+]
+
+// Access is enforced by middleware.ts and again by each /api/admin route
+export default async function AdminLayout({ children }: { children: React.ReactNode }) {
+  const session = await getServerSession(authOptions)
+  const role = (session?.user as any)?.role
+  const visible = sections.filter((section) => hasRole(role, requiredRoleForPath(section.href)))
+
+  return (
+    <div className="min-h-screen bg-[#F7F9FC] p-4">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex items-center mb-8 pt-8">
+          <Link href="/">
+            <Button variant="ghost" size="sm" className="mr-4">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Button>
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-800 mr-8">Admin</h1>
+          <nav className="flex gap-2">
+            {visible.map((section) => (
+              <Link key={section.href} href={section.href}>
+                <Button variant="ghost" size="sm">
+                  {section.label}
+                </Button>
+              </Link>
+            ))}
+          </nav>
+        </div>
+        {children}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,10 @@
+import { redirect } from "next/navigation"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/app/api/auth/[...nextauth]/route"
+import { hasRole } from "@/lib/roles"
+
+// Support can only open the users section; the catalog needs admin
+export default async function AdminPage() {
+  const session = await getServerSession(authOptions)
+  redirect(hasRole((session?.user as any)?.role, "admin") ? "/admin/catalog" : "/admin/users")
+}
@@ -0,0 +1,361 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { useSession } from "next-auth/react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { ArrowLeft, Ban, CheckCircle, KeyRound, Layers, ShieldOff, UserRound } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { TierBadge } from "@/components/tier-badge"
+import { PLANS, TIERS, normalizeTier, type Tier } from "@/lib/entitlements"
+import { hasRole, outranks } from "@/lib/roles"
+
+interface UserDetail {
+  user: {
+    id: string
+    email: string
+    name: string | null
+    role: string
+    subscriptionTier: string
+    paymentMethod: string | null
+    emailVerified: string | null
+    totpEnabledAt: string | null
+    subscriptionId: string | null
+    subscriptionStatus: string | null
+    stripeCustomerId: string | null
+    cancelAtPeriodEnd: boolean
+    currentPeriodEnd: string | null
+    disabledAt: string | null
+    deleteAfter: string | null
+    createdAt: string
+  }
+  recommendations: { id: string; categoryId: string; title: string; createdAt: string }[]
+  audit: { id: string; actorEmail: string | null; action: string; reason: string | null; createdAt: string }[]
+}
+
+type Action = "reset-password" | "tier" | "disable" | "two-factor"
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString() : "—")
+
+export default function AdminUserPage({ params }: { params: { id: string } }) {
+  const router = useRouter()
+  const { toast } = useToast()
+  const { data: session, update } = useSession()
+  const isAdmin = hasRole((session?.user as any)?.role, "admin")
+
+  const [detail, setDetail] = useState<UserDetail | null>(null)
+  const [notFound, setNotFound] = useState(false)
+
+  const [action, setAction] = useState<Action | null>(null)
+  const [reason, setReason] = useState("")
+  const [tier, setTier] = useState<Tier>("free")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [temporaryPassword, setTemporaryPassword] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    const response = await fetch(`/api/admin/users/${params.id}`)
+    if (response.status === 404) {
+      setNotFound(true)
+      return
+    }
+    if (response.ok) setDetail(await response.json())
+  }, [params.id])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const openAction = (next: Action) => {
+    setReason("")
+    setTier(normalizeTier(detail?.user.subscriptionTier))
+    setAction(next)
+  }
+
+  const submitAction = async () => {
+    if (!detail || !action) return
+    const { user } = detail
+
+    const request =
+      action === "reset-password"
+        ? { url: `/api/admin/users/${user.id}/reset-password`, body: { reason } }
+        : action === "tier"
+          ? { url: "/api/upgrade", body: { userId: user.id, tier, reason } }
+          : action === "two-factor"
+            ? { url: `/api/admin/users/${user.id}/two-factor`, body: { reason } }
+            : { url: `/api/admin/users/${user.id}/disable`, body: { disabled: !user.disabledAt, reason } }
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch(request.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(request.body),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.issues ? "Please give a reason of at least 3 characters." : data.error)
+      }
+
+      if (action === "reset-password") {
+        setTemporaryPassword(data.temporaryPassword)
+      } else {
+        toast({ title: "User updated", description: user.email })
+      }
+      setAction(null)
+      load()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message ? error.message : "Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  // The jwt callback checks the role again and records the audit entry
+  const impersonate = async () => {
+    if (!detail) return
+    const updated = await update({ impersonate: detail.user.id })
+    if (updated?.user?.email === detail.user.email) {
+      router.push("/")
+    } else {
+      toast({ title: "Error", description: "Could not sign in as this user", variant: "destructive" })
+    }
+  }
+
+  if (notFound) {
+    return <p className="text-sm text-gray-500">User not found.</p>
+  }
+
+  if (!detail) {
+    return <p className="text-sm text-gray-500">Loading user...</p>
+  }
+
+  const { user, recommendations, audit } = detail
+  // The API refuses these for staff of the viewer's role or higher
+  const canManage = outranks((session?.user as any)?.role, user.role)
+  const actionTitles: Record<Action, string> = {
+    "reset-password": "Reset password",
+    tier: "Change plan",
+    disable: user.disabledAt ? "Enable account" : "Disable account",
+    "two-factor": "Turn off two-factor authentication",
+  }
+
+  return (
+    <div className="space-y-6">
+      <Link href="/admin/users">
+        <Button variant="ghost" size="sm">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          All users
+        </Button>
+      </Link>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              {user.email}
+              {user.disabledAt && <Badge variant="destructive">Disabled</Badge>}
+              {user.deleteAfter && <Badge variant="outline">Deletion pending</Badge>}
+            </CardTitle>
+            <TierBadge tier={normalizeTier(user.subscriptionTier)} />
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <dl className="grid grid-cols-2 gap-x-8 gap-y-3 text-sm">
+            {[
+              ["Name", user.name ?? "—"],
+              ["Role", user.role],
+              ["Payment method", user.paymentMethod ?? "—"],
+              ["Subscription ID", user.subscriptionId ?? "—"],
+              ["Subscription status", user.subscriptionStatus ?? "—"],
+              ["Stripe customer", user.stripeCustomerId ?? "—"],
+              [user.cancelAtPeriodEnd ? "Ends" : "Renews", formatDate(user.currentPeriodEnd)],
+              ["Created", formatDate(user.createdAt)],
+              ["Email verified", formatDate(user.emailVerified)],
+              ["Two-factor since", formatDate(user.totpEnabledAt)],
+              ["Disabled", formatDate(user.disabledAt)],
+              ["Deleted after", formatDate(user.deleteAfter)],
+            ].map(([label, value]) => (
+              <div key={label}>
+                <dt className="text-gray-500">{label}</dt>
+                <dd className="font-medium break-all">{value}</dd>
+              </div>
+            ))}
+          </dl>
+
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={() => openAction("reset-password")} disabled={!canManage}>
+              <KeyRound className="h-4 w-4 mr-2" />
+              Reset password
+            </Button>
+            {isAdmin && (
+              <>
+                <Button variant="outline" size="sm" onClick={() => openAction("tier")}>
+                  <Layers className="h-4 w-4 mr-2" />
+                  Change plan
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => openAction("disable")} disabled={!canManage}>
+                  {user.disabledAt ? <CheckCircle className="h-4 w-4 mr-2" /> : <Ban className="h-4 w-4 mr-2" />}
+                  {user.disabledAt ? "Enable account" : "Disable account"}
+                </Button>
+                {user.totpEnabledAt && (
+                  <Button variant="outline" size="sm" onClick={() => openAction("two-factor")} disabled={!canManage}>
+                    <ShieldOff className="h-4 w-4 mr-2" />
+                    Turn off 2FA
+                  </Button>
+                )}
+                <Button variant="outline" size="sm" onClick={impersonate} disabled={!canManage || !!user.disabledAt}>
+                  <UserRound className="h-4 w-4 mr-2" />
+                  Sign in as user
+                </Button>
+              </>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent recommendations</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {recommendations.length === 0 ? (
+            <p className="text-sm text-gray-500">No recommendations yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Item</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {recommendations.map((event) => (
+                  <TableRow key={event.id}>
+                    <TableCell className="whitespace-nowrap">{formatDate(event.createdAt)}</TableCell>
+                    <TableCell className="capitalize">{event.categoryId}</TableCell>
+                    <TableCell>{event.title}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Staff activity</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {audit.length === 0 ? (
+            <p className="text-sm text-gray-500">No staff actions on this account.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>By</TableHead>
+                  <TableHead>Reason</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {audit.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap">{formatDate(entry.createdAt)}</TableCell>
+                    <TableCell className="font-mono text-xs">{entry.action}</TableCell>
+                    <TableCell>{entry.actorEmail ?? "—"}</TableCell>
+                    <TableCell>{entry.reason ?? "—"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={action !== null} onOpenChange={(open) => !open && setAction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{action && actionTitles[action]}</DialogTitle>
+            <DialogDescription>
+              {action === "reset-password" && "Sets a new temporary password and signs them out everywhere."}
+              {action === "tier" && "Changes the plan without touching their Stripe or PayPal subscription."}
+              {action === "two-factor" &&
+                "Removes their authenticator and recovery codes. Only do this after confirming who you are talking to."}
+              {action === "disable" &&
+                (user.disabledAt
+                  ? "They will be able to sign in again."
+                  : "They are signed out and cannot sign in until the account is enabled.")}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {action === "tier" && (
+              <div className="space-y-2">
+                <Label>Plan</Label>
+                <Select value={tier} onValueChange={(value) => setTier(value as Tier)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TIERS.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {PLANS[value].name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="reason">Reason</Label>
+              <Textarea
+                id="reason"
+                rows={2}
+                placeholder="Recorded in the audit log"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAction(null)}>
+              Cancel
+            </Button>
+            <Button onClick={submitAction} disabled={isSubmitting || reason.trim().length < 3}>
+              {isSubmitting ? "Saving..." : "Confirm"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={temporaryPassword !== null} onOpenChange={(open) => !open && setTemporaryPassword(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Temporary password</DialogTitle>
+            <DialogDescription>
+              Share this with {user.email} over a verified channel. It is not shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <p className="font-mono text-lg text-center bg-gray-100 rounded p-3 select-all">{temporaryPassword}</p>
+          <DialogFooter>
+            <Button onClick={() => setTemporaryPassword(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
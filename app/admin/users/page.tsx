@@ -0,0 +1,184 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter, useSearchParams } from "next/navigation"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination"
+import { TierBadge } from "@/components/tier-badge"
+import { normalizeTier } from "@/lib/entitlements"
+
+interface UserSummary {
+  id: string
+  email: string
+  name: string | null
+  role: string
+  subscriptionTier: string
+  paymentMethod: string | null
+  subscriptionStatus: string | null
+  disabledAt: string | null
+  createdAt: string
+}
+
+interface UserPage {
+  users: UserSummary[]
+  total: number
+  page: number
+  pageCount: number
+}
+
+// Page numbers to show around the current page, with null for a gap
+function pageWindow(page: number, pageCount: number): (number | null)[] {
+  const pages = new Set([1, pageCount, page - 1, page, page + 1])
+  const sorted = Array.from(pages)
+    .filter((n) => n >= 1 && n <= pageCount)
+    .sort((a, b) => a - b)
+  return sorted.flatMap((n, i) => (i > 0 && n - sorted[i - 1] > 1 ? [null, n] : [n]))
+}
+
+export default function AdminUsersPage() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const page = Number(searchParams.get("page")) || 1
+  const query = searchParams.get("q") ?? ""
+
+  const [search, setSearch] = useState(query)
+  const [result, setResult] = useState<UserPage | null>(null)
+
+  const hrefFor = (next: { page?: number; q?: string }) => {
+    const params = new URLSearchParams()
+    const q = next.q ?? query
+    if (q) params.set("q", q)
+    if ((next.page ?? page) > 1) params.set("page", String(next.page ?? page))
+    const qs = params.toString()
+    return `/admin/users${qs ? `?${qs}` : ""}`
+  }
+
+  // Keep the search in the URL so results can be linked and survive a reload
+  useEffect(() => {
+    if (search.trim() === query) return
+    const timer = setTimeout(() => router.replace(hrefFor({ q: search.trim(), page: 1 })), 300)
+    return () => clearTimeout(timer)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [search])
+
+  useEffect(() => {
+    const params = new URLSearchParams({ page: String(page) })
+    if (query) params.set("q", query)
+    fetch(`/api/admin/users?${params}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then(setResult)
+  }, [page, query])
+
+  const goTo = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault()
+    router.push(hrefFor({ page: target }))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Users</CardTitle>
+          <Input
+            className="w-72"
+            type="search"
+            placeholder="Search by email"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!result ? (
+          <p className="text-sm text-gray-500">Loading users...</p>
+        ) : result.users.length === 0 ? (
+          <p className="text-sm text-gray-500">No users match.</p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Plan</TableHead>
+                  <TableHead>Payment</TableHead>
+                  <TableHead>Joined</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.users.map((user) => (
+                  <TableRow key={user.id}>
+                    <TableCell>
+                      <Link href={`/admin/users/${user.id}`} className="font-medium hover:underline">
+                        {user.email}
+                      </Link>
+                      {user.name && <div className="text-xs text-gray-500">{user.name}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <TierBadge tier={normalizeTier(user.subscriptionTier)} className="text-xs" />
+                    </TableCell>
+                    <TableCell className="capitalize">{user.paymentMethod ?? "—"}</TableCell>
+                    <TableCell className="whitespace-nowrap">{new Date(user.createdAt).toLocaleDateString()}</TableCell>
+                    <TableCell className="space-x-1">
+                      {user.disabledAt && <Badge variant="destructive">Disabled</Badge>}
+                      {user.role !== "user" && (
+                        <Badge variant="outline" className="capitalize">
+                          {user.role}
+                        </Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-gray-500 whitespace-nowrap">
+                {result.total} user{result.total === 1 ? "" : "s"}
+              </p>
+              {result.pageCount > 1 && (
+                <Pagination className="justify-end">
+                  <PaginationContent>
+                    {result.page > 1 && (
+                      <PaginationItem>
+                        <PaginationPrevious href={hrefFor({ page: result.page - 1 })} onClick={goTo(result.page - 1)} />
+                      </PaginationItem>
+                    )}
+                    {pageWindow(result.page, result.pageCount).map((n, i) => (
+                      <PaginationItem key={n ?? `gap-${i}`}>
+                        {n === null ? (
+                          <PaginationEllipsis />
+                        ) : (
+                          <PaginationLink href={hrefFor({ page: n })} isActive={n === result.page} onClick={goTo(n)}>
+                            {n}
+                          </PaginationLink>
+                        )}
+                      </PaginationItem>
+                    ))}
+                    {result.page < result.pageCount && (
+                      <PaginationItem>
+                        <PaginationNext href={hrefFor({ page: result.page + 1 })} onClick={goTo(result.page + 1)} />
+                      </PaginationItem>
+                    )}
+                  </PaginationContent>
+                </Pagination>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
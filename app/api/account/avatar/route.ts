@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { getStorage, IMAGE_TYPES, MAX_IMAGE_BYTES } from '@/lib/storage'
+
+// Avatar upload; returns the URL, which is saved with PATCH /api/account
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const file = (await request.formData()).get('file')
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'No file uploaded' }, { status: 400 })
+    }
+
+    const extension = IMAGE_TYPES[file.type]
+    if (!extension) {
+      return NextResponse.json({ error: 'Only PNG, JPEG, WebP and GIF images are allowed' }, { status: 415 })
+    }
+    if (file.size > MAX_IMAGE_BYTES) {
+      return NextResponse.json({ error: 'Images are limited to 2 MB' }, { status: 413 })
+    }
+
+    const stored = await getStorage().save('avatars', {
+      data: Buffer.from(await file.arrayBuffer()),
+      extension,
+    })
+    return NextResponse.json(stored, { status: 201 })
+  } catch (error) {
+    console.error('Avatar upload error:', error)
+    return NextResponse.json({ error: 'Failed to upload file' }, { status: 500 })
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { AccountError, confirmEmailChange } from '@/lib/account'
+
+const ConfirmSchema = z.object({ token: z.string().min(1) })
+
+// No session needed: the link may be opened on another device
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = ConfirmSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request' }, { status: 400 })
+    }
+
+    const user = await confirmEmailChange(parsed.data.token)
+    return NextResponse.json({ email: user.email })
+  } catch (error) {
+    if (error instanceof AccountError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status })
+    }
+    console.error('Email change confirmation error:', error)
+    return NextResponse.json({ error: 'Failed to confirm email change' }, { status: 500 })
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { AccountError, requestEmailChange } from '@/lib/account'
+
+const EmailSchema = z.object({
+  email: z.string().trim().email(),
+  password: z.string().optional(),
+})
+
+// Sends a confirmation link to the new address; see ./confirm
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if ((session.user as any).impersonatorEmail) {
+      return NextResponse.json({ error: 'Not available while impersonating' }, { status: 403 })
+    }
+
+    const parsed = EmailSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Enter a valid email address' }, { status: 400 })
+    }
+
+    const baseUrl = process.env.NEXTAUTH_URL || request.nextUrl.origin
+    const result = await requestEmailChange((session.user as any).id, parsed.data.email, parsed.data.password, baseUrl)
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof AccountError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status })
+    }
+    console.error('Email change error:', error)
+    return NextResponse.json({ error: 'Failed to change email' }, { status: 500 })
+  }
+}
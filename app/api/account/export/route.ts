@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { exportAccountData } from '@/lib/account-export'
+
+// Downloads everything stored about the signed-in user as one JSON file
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const data = await exportAccountData((session.user as any).id)
+    const day = data.exportedAt.slice(0, 10)
+    return new NextResponse(JSON.stringify(data, null, 2), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="randomlife-data-${day}.json"`,
+      },
+    })
+  } catch (error) {
+    console.error('Account export error:', error)
+    return NextResponse.json({ error: 'Failed to export account data' }, { status: 500 })
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { AccountError, changePassword } from '@/lib/account'
+
+const PasswordSchema = z.object({
+  currentPassword: z.string().optional(),
+  newPassword: z.string().min(6),
+})
+
+// Signs the account out everywhere, so the client sends the user to /login
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    // Staff helping a user go through /admin/users instead
+    if ((session.user as any).impersonatorEmail) {
+      return NextResponse.json({ error: 'Not available while impersonating' }, { status: 403 })
+    }
+
+    const parsed = PasswordSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Password must be at least 6 characters' }, { status: 400 })
+    }
+
+    await changePassword((session.user as any).id, parsed.data.currentPassword, parsed.data.newPassword)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof AccountError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status })
+    }
+    console.error('Password change error:', error)
+    return NextResponse.json({ error: 'Failed to change password' }, { status: 500 })
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { AccountError, getAccount, scheduleAccountDeletion, updateProfile } from '@/lib/account'
+import { SubscriptionError } from '@/lib/billing/subscriptions'
+
+const ProfileSchema = z.object({
+  // An empty name clears it
+  name: z.string().trim().max(100).transform((name) => name || null).optional(),
+  image: z.string().max(2000).nullable().optional(),
+})
+
+const DeleteSchema = z.object({ password: z.string().optional() })
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json(await getAccount((session.user as any).id))
+  } catch (error) {
+    if (error instanceof AccountError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Account fetch error:', error)
+    return NextResponse.json({ error: 'Failed to load account' }, { status: 500 })
+  }
+}
+
+// Name and avatar; the client calls useSession().update() afterwards so the
+// header picks up the change
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = ProfileSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Names are limited to 100 characters' }, { status: 400 })
+    }
+
+    return NextResponse.json(await updateProfile((session.user as any).id, parsed.data))
+  } catch (error) {
+    if (error instanceof AccountError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Account update error:', error)
+    return NextResponse.json({ error: 'Failed to update account' }, { status: 500 })
+  }
+}
+
+// Schedules the account for deletion and signs it out everywhere; see
+// scheduleAccountDeletion for the grace period
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if ((session.user as any).impersonatorEmail) {
+      return NextResponse.json({ error: 'Not available while impersonating' }, { status: 403 })
+    }
+
+    const parsed = DeleteSchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request' }, { status: 400 })
+    }
+
+    const { deleteAfter } = await scheduleAccountDeletion((session.user as any).id, parsed.data.password)
+    return NextResponse.json({ deleteAfter: deleteAfter.toISOString() })
+  } catch (error) {
+    if (error instanceof AccountError || error instanceof SubscriptionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status })
+    }
+    console.error('Account deletion error:', error)
+    return NextResponse.json({ error: 'Failed to delete account' }, { status: 500 })
+  }
+}
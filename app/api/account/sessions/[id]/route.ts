@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { revokeUserSession } from '@/lib/user-sessions'
+
+// Signs out one device. That device's token stops working on its next request.
+export async function DELETE(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email || (session.user as any).impersonatorEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await revokeUserSession((session.user as any).id, params.id))) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Session revoke error:', error)
+    return NextResponse.json({ error: 'Failed to sign out device' }, { status: 500 })
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { listUserSessions, revokeUserSessions } from '@/lib/user-sessions'
+
+// While impersonating, the sessions are the admin's, so these stay closed
+async function ownSession() {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.email || (session.user as any).impersonatorEmail) return null
+  return { userId: (session.user as any).id as string, sessionId: (session.user as any).sessionId as string | undefined }
+}
+
+export async function GET() {
+  try {
+    const own = await ownSession()
+    if (!own) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json({ sessions: await listUserSessions(own.userId, own.sessionId) })
+  } catch (error) {
+    console.error('Session list error:', error)
+    return NextResponse.json({ error: 'Failed to load sessions' }, { status: 500 })
+  }
+}
+
+// Signs out every device except the one making the request
+export async function DELETE() {
+  try {
+    const own = await ownSession()
+    if (!own?.sessionId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json({ revoked: await revokeUserSessions(own.userId, own.sessionId) })
+  } catch (error) {
+    console.error('Session revoke error:', error)
+    return NextResponse.json({ error: 'Failed to sign out other devices' }, { status: 500 })
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { disableTwoFactor, TwoFactorError } from '@/lib/two-factor'
+
+const DisableSchema = z.object({ code: z.string().min(1) })
+
+// Takes an authenticator code or a recovery code
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = DisableSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request' }, { status: 400 })
+    }
+
+    await disableTwoFactor((session.user as any).id, parsed.data.code)
+    return NextResponse.json({ enabled: false })
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status })
+    }
+    console.error('Two-factor disable error:', error)
+    return NextResponse.json({ error: 'Failed to disable two-factor authentication' }, { status: 500 })
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { confirmEnrollment, TwoFactorError } from '@/lib/two-factor'
+
+const EnableSchema = z.object({ code: z.string().min(1) })
+
+// Recovery codes are returned once and never shown again
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = EnableSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request' }, { status: 400 })
+    }
+
+    return NextResponse.json(await confirmEnrollment((session.user as any).id, parsed.data.code))
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status })
+    }
+    console.error('Two-factor enable error:', error)
+    return NextResponse.json({ error: 'Failed to enable two-factor authentication' }, { status: 500 })
+  }
+}
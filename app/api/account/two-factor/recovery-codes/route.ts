@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { regenerateRecoveryCodes, TwoFactorError } from '@/lib/two-factor'
+
+const RegenerateSchema = z.object({ code: z.string().min(1) })
+
+// Replaces all recovery codes, used or not
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = RegenerateSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request' }, { status: 400 })
+    }
+
+    return NextResponse.json(await regenerateRecoveryCodes((session.user as any).id, parsed.data.code))
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status })
+    }
+    console.error('Recovery code error:', error)
+    return NextResponse.json({ error: 'Failed to create recovery codes' }, { status: 500 })
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { twoFactorStatus } from '@/lib/two-factor'
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json(await twoFactorStatus((session.user as any).id))
+  } catch (error) {
+    console.error('Two-factor status error:', error)
+    return NextResponse.json({ error: 'Failed to load two-factor status' }, { status: 500 })
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { beginEnrollment, TwoFactorError } from '@/lib/two-factor'
+
+const SetupSchema = z.object({ password: z.string().optional() })
+
+// Returns the secret and a QR code for the authenticator app. Nothing is
+// enforced until the first code is confirmed at /enable.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = SetupSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request' }, { status: 400 })
+    }
+
+    return NextResponse.json(await beginEnrollment((session.user as any).id, parsed.data.password))
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status })
+    }
+    console.error('Two-factor setup error:', error)
+    return NextResponse.json({ error: 'Failed to start two-factor setup' }, { status: 500 })
+  }
+}
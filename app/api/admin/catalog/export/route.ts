@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireRole } from '@/lib/auth'
+import { exportCatalogCsv } from '@/lib/catalog-admin'
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireRole('admin')
+    if (!auth.ok) return auth.response
+
+    const categoryId = request.nextUrl.searchParams.get('categoryId') || undefined
+    const csv = await exportCatalogCsv(categoryId)
+
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="catalog-${categoryId ?? 'all'}.csv"`,
+      },
+    })
+  } catch (error) {
+    console.error('Catalog export error:', error)
+    return NextResponse.json({ error: 'Failed to export catalog' }, { status: 500 })
+  }
+}
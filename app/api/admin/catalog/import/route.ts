@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireRole } from '@/lib/auth'
+import { CatalogError, importCatalogCsv } from '@/lib/catalog-admin'
+
+const MAX_CSV_BYTES = 1024 * 1024
+
+// Accepts a multipart "file" field or a raw text/csv body. ?dryRun=true only validates.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireRole('admin')
+    if (!auth.ok) return auth.response
+
+    let text: string
+    if (request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+      const file = (await request.formData()).get('file')
+      if (!(file instanceof File)) {
+        return NextResponse.json({ error: 'No file uploaded' }, { status: 400 })
+      }
+      if (file.size > MAX_CSV_BYTES) {
+        return NextResponse.json({ error: 'CSV files are limited to 1 MB' }, { status: 413 })
+      }
+      text = await file.text()
+    } else {
+      text = await request.text()
+      if (text.length > MAX_CSV_BYTES) {
+        return NextResponse.json({ error: 'CSV files are limited to 1 MB' }, { status: 413 })
+      }
+    }
+
+    const summary = await importCatalogCsv(
+      text,
+      { id: auth.userId, email: auth.session.user?.email },
+      { dryRun: request.nextUrl.searchParams.get('dryRun') === 'true' }
+    )
+
+    return NextResponse.json(summary, { status: summary.errors.length ? 422 : 200 })
+  } catch (error) {
+    if (error instanceof CatalogError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Catalog import error:', error)
+    return NextResponse.json({ error: 'Failed to import catalog' }, { status: 500 })
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireRole } from '@/lib/auth'
+import { CatalogError, setItemArchived, updateCatalogItem } from '@/lib/catalog-admin'
+import { CatalogItemSchema } from '@/lib/catalog-schema'
+
+const ArchiveSchema = z.object({ archived: z.boolean() })
+
+// Replaces the editable fields of an item
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await requireRole('admin')
+    if (!auth.ok) return auth.response
+
+    const parsed = CatalogItemSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid item', issues: parsed.error.issues }, { status: 400 })
+    }
+
+    const item = await updateCatalogItem(params.id, parsed.data, { id: auth.userId, email: auth.session.user?.email })
+    return NextResponse.json({ item })
+  } catch (error) {
+    if (error instanceof CatalogError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Catalog update error:', error)
+    return NextResponse.json({ error: 'Failed to update item' }, { status: 500 })
+  }
+}
+
+// Archives or restores an item
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await requireRole('admin')
+    if (!auth.ok) return auth.response
+
+    const parsed = ArchiveSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request' }, { status: 400 })
+    }
+
+    const item = await setItemArchived(params.id, parsed.data.archived, {
+      id: auth.userId,
+      email: auth.session.user?.email,
+    })
+    return NextResponse.json({ item })
+  } catch (error) {
+    if (error instanceof CatalogError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Catalog archive error:', error)
+    return NextResponse.json({ error: 'Failed to update item' }, { status: 500 })
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireRole } from '@/lib/auth'
+import { CatalogError, createCatalogItem, listCatalogItems, listCategories } from '@/lib/catalog-admin'
+import { CatalogItemSchema } from '@/lib/catalog-schema'
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireRole('admin')
+    if (!auth.ok) return auth.response
+
+    const params = request.nextUrl.searchParams
+    const [categories, items] = await Promise.all([
+      listCategories(),
+      listCatalogItems({
+        categoryId: params.get('categoryId') || undefined,
+        includeArchived: params.get('archived') === 'true',
+        query: params.get('q')?.trim() || undefined,
+      }),
+    ])
+
+    return NextResponse.json({ categories, items })
+  } catch (error) {
+    console.error('Catalog list error:', error)
+    return NextResponse.json({ error: 'Failed to load catalog' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireRole('admin')
+    if (!auth.ok) return auth.response
+
+    const parsed = CatalogItemSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid item', issues: parsed.error.issues }, { status: 400 })
+    }
+
+    const item = await createCatalogItem(parsed.data, { id: auth.userId, email: auth.session.user?.email })
+    return NextResponse.json({ item }, { status: 201 })
+  } catch (error) {
+    if (error instanceof CatalogError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Catalog create error:', error)
+    return NextResponse.json({ error: 'Failed to create item' }, { status: 500 })
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireRole } from '@/lib/auth'
+import { getStorage, IMAGE_TYPES, MAX_IMAGE_BYTES } from '@/lib/storage'
+
+// Image upload for catalog items; returns the URL to store on the item
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireRole('admin')
+    if (!auth.ok) return auth.response
+
+    const file = (await request.formData()).get('file')
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'No file uploaded' }, { status: 400 })
+    }
+
+    const extension = IMAGE_TYPES[file.type]
+    if (!extension) {
+      return NextResponse.json({ error: 'Only PNG, JPEG, WebP and GIF images are allowed' }, { status: 415 })
+    }
+    if (file.size > MAX_IMAGE_BYTES) {
+      return NextResponse.json({ error: 'Images are limited to 2 MB' }, { status: 413 })
+    }
+
+    const stored = await getStorage().save('catalog', {
+      data: Buffer.from(await file.arrayBuffer()),
+      extension,
+    })
+    return NextResponse.json(stored, { status: 201 })
+  } catch (error) {
+    console.error('Upload error:', error)
+    return NextResponse.json({ error: 'Failed to upload file' }, { status: 500 })
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireRole } from '@/lib/auth'
+import { AdminUserError, setUserDisabled } from '@/lib/admin-users'
+
+const DisableSchema = z.object({
+  disabled: z.boolean(),
+  reason: z.string().trim().min(3).max(500),
+})
+
+// Disabled users cannot sign in and their existing sessions stop working on
+// the next request. Subscriptions are left alone.
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await requireRole('admin')
+    if (!auth.ok) return auth.response
+
+    const parsed = DisableSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 })
+    }
+
+    const user = await setUserDisabled(
+      params.id,
+      parsed.data.disabled,
+      { id: auth.userId, email: auth.session.user?.email },
+      parsed.data.reason
+    )
+    return NextResponse.json({ id: user.id, disabledAt: user.disabledAt })
+  } catch (error) {
+    if (error instanceof AdminUserError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Disable user error:', error)
+    return NextResponse.json({ error: 'Failed to update user' }, { status: 500 })
+  }
+}
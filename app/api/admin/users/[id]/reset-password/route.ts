@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireRole } from '@/lib/auth'
+import { AdminUserError, resetUserPassword } from '@/lib/admin-users'
+
+const ResetSchema = z.object({ reason: z.string().trim().min(3).max(500) })
+
+// Support can reset a password for a user who is locked out, and admins for
+// support staff too; the temporary password is returned once and shown to the
+// staff member
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await requireRole('support')
+    if (!auth.ok) return auth.response
+
+    const parsed = ResetSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 })
+    }
+
+    const result = await resetUserPassword(
+      params.id,
+      { id: auth.userId, email: auth.session.user?.email },
+      parsed.data.reason
+    )
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof AdminUserError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Password reset error:', error)
+    return NextResponse.json({ error: 'Failed to reset password' }, { status: 500 })
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server'
+import { requireRole } from '@/lib/auth'
+import { AdminUserError, getUserDetail } from '@/lib/admin-users'
+
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  try {
+    const auth = await requireRole('support')
+    if (!auth.ok) return auth.response
+
+    return NextResponse.json(await getUserDetail(params.id))
+  } catch (error) {
+    if (error instanceof AdminUserError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('User detail error:', error)
+    return NextResponse.json({ error: 'Failed to load user' }, { status: 500 })
+  }
+}
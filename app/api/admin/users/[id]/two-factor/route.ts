@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireRole } from '@/lib/auth'
+import { AdminUserError, resetUserTwoFactor } from '@/lib/admin-users'
+
+const ResetTwoFactorSchema = z.object({ reason: z.string().trim().min(3).max(500) })
+
+// Turns off two-factor authentication for a user who lost their authenticator
+// and recovery codes. Admin only: together with a password reset it hands
+// over the account, so check the person's identity first.
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await requireRole('admin')
+    if (!auth.ok) return auth.response
+
+    const parsed = ResetTwoFactorSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 })
+    }
+
+    await resetUserTwoFactor(params.id, { id: auth.userId, email: auth.session.user?.email }, parsed.data.reason)
+    return NextResponse.json({ enabled: false })
+  } catch (error) {
+    if (error instanceof AdminUserError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Two-factor reset error:', error)
+    return NextResponse.json({ error: 'Failed to reset two-factor authentication' }, { status: 500 })
+  }
+}
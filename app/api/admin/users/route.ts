@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireRole } from '@/lib/auth'
+import { searchUsers } from '@/lib/admin-users'
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireRole('support')
+    if (!auth.ok) return auth.response
+
+    const params = request.nextUrl.searchParams
+    const result = await searchUsers({
+      query: params.get('q')?.trim() || undefined,
+      page: Number(params.get('page')) || 1,
+    })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('User search error:', error)
+    return NextResponse.json({ error: 'Failed to load users' }, { status: 500 })
+  }
+}
@@ -2,47 +2,166 @@ import NextAuth, { AuthOptions } from 'next-auth'
 import Credentials from 'next-auth/providers/credentials'
 import { prisma } from '@/lib/prisma'
 import bcrypt from 'bcryptjs'
+import { startImpersonation, stopImpersonation } from '@/lib/admin-users'
+import { verifySecondFactor } from '@/lib/two-factor'
+import { cancelAccountDeletion } from '@/lib/account'
+import { createUserSession, revokeUserSession, SESSION_MAX_AGE, touchUserSession } from '@/lib/user-sessions'
+import { clearLoginFailures, loginBlockedUntil, recordLoginFailure, signInIp } from '@/lib/login-throttle'
+import { allowOAuthSignIn, authAdapter, oauthProviders, providerVerifiedEmail } from '@/lib/oauth'
 
 export const authOptions: AuthOptions = {
-  session: { strategy: 'jwt' },
+  // The adapter stores OAuth users and accounts; sessions stay JWTs because
+  // the Credentials provider cannot use database sessions
+  adapter: authAdapter(),
+  session: { strategy: 'jwt', maxAge: SESSION_MAX_AGE },
+  pages: { signIn: '/login', error: '/login' },
   providers: [
     Credentials({
       name: 'Credentials',
       credentials: {
         email: { label: 'Email', type: 'text' },
         password: { label: 'Password', type: 'password' },
+        // Authenticator or recovery code, sent on the second step when 2FA is on
+        otp: { label: 'Code', type: 'text' },
       },
-      authorize: async (credentials) => {
+      authorize: async (credentials, req) => {
         if (!credentials?.email || !credentials?.password) return null
+
+        // Surfaced to the login page as res.error. AccountLocked carries the
+        // time (ms since epoch) when the next attempt will be checked.
+        const ip = signInIp(req?.headers)
+        const blockedUntil = await loginBlockedUntil(credentials.email, ip)
+        if (blockedUntil) throw new Error(`AccountLocked:${blockedUntil.getTime()}`)
+
+        const fail = async () => {
+          await recordLoginFailure(credentials.email, ip)
+          return null
+        }
+
         const user = await prisma.user.findUnique({ where: { email: credentials.email } })
-        if (!user) return null
+        if (!user?.password) return fail()
         const valid = await bcrypt.compare(credentials.password, user.password)
-        if (!valid) return null
+        if (!valid) return fail()
+        if (user.disabledAt) throw new Error('AccountDisabled')
+        if (!user.emailVerified) throw new Error('EmailNotVerified')
+        if (user.totpEnabledAt) {
+          if (!credentials.otp) throw new Error('TwoFactorRequired')
+          // Wrong codes count as failures too, so the code cannot be guessed
+          if (!(await verifySecondFactor(user, credentials.otp))) {
+            await fail()
+            throw new Error('TwoFactorInvalid')
+          }
+        }
+
+        await clearLoginFailures(credentials.email)
         return { id: user.id, name: user.name ?? null, email: user.email }
       },
     }),
+    ...oauthProviders(),
   ],
   callbacks: {
-    async jwt({ token }) {
-      if (token?.email) {
-        const dbUser = await prisma.user.findUnique({ where: { email: token.email } })
-        if (dbUser) {
-          token.userId = dbUser.id
-          ;(token as any).subscriptionTier = dbUser.subscriptionTier
-          ;(token as any).paymentMethod = dbUser.paymentMethod
+    async signIn({ account, profile }) {
+      if (account?.type === 'oauth') return allowOAuthSignIn(account, profile)
+      return true
+    },
+    async jwt({ token, user, trigger, session }) {
+      if (user) token.userId = user.id
+
+      // Admins sign in as another user with useSession().update({ impersonate: id })
+      // and return with update({ impersonate: null })
+      if (trigger === 'update' && session && 'impersonate' in session) {
+        try {
+          if (session.impersonate && token.userId && !token.impersonatorId) {
+            const target = await startImpersonation(token.userId as string, session.impersonate)
+            token.impersonatorId = token.userId
+            token.impersonatorEmail = token.email
+            token.impersonatorSessionVersion = token.sessionVersion
+            token.sessionVersion = target.sessionVersion
+            token.userId = target.id
+            token.email = target.email
+            token.name = target.name
+          } else if (!session.impersonate && token.impersonatorId) {
+            const actor = await stopImpersonation(token.impersonatorId as string, token.userId as string)
+            token.userId = actor.id
+            token.email = actor.email
+            token.name = actor.name
+            token.sessionVersion = token.impersonatorSessionVersion
+            delete token.impersonatorId
+            delete token.impersonatorEmail
+            delete token.impersonatorSessionVersion
+          }
+        } catch (error) {
+          console.error('Impersonation error:', error)
         }
       }
+
+      const dbUser = token.userId
+        ? await prisma.user.findUnique({ where: { id: token.userId as string } })
+        : token.email
+          ? await prisma.user.findUnique({ where: { email: token.email } })
+          : null
+      if (dbUser && user) token.sessionVersion = dbUser.sessionVersion
+
+      // An empty token leaves the session without a user, which every API
+      // route treats as signed out. Resetting the password bumps
+      // sessionVersion, which ends every session issued before it. A token
+      // whose user no longer exists (e.g. purged) is dropped too.
+      if (token.userId && !dbUser) return {}
+      if (dbUser?.disabledAt) return {}
+      if (dbUser && (token.sessionVersion ?? 0) !== dbUser.sessionVersion) return {}
+
+      // Each token is listed under Settings → Security with its own sid, and
+      // is dropped once that entry is revoked. Tokens issued before the list
+      // existed are registered on their next request. While impersonating,
+      // the entry still belongs to the admin.
+      const ownerId = (token.impersonatorId ?? token.userId) as string | undefined
+      if (dbUser && ownerId) {
+        if (!token.sid) token.sid = await createUserSession(ownerId)
+        else if (!(await touchUserSession(token.sid as string, ownerId))) return {}
+      }
+      if (dbUser) {
+        token.userId = dbUser.id
+        // Profile and email edits from Settings show up on the next update()
+        token.email = dbUser.email
+        token.name = dbUser.name
+        token.picture = dbUser.image
+        token.role = dbUser.role
+        ;(token as any).subscriptionTier = dbUser.subscriptionTier
+        ;(token as any).paymentMethod = dbUser.paymentMethod
+      }
       return token
     },
     async session({ session, token }) {
       if (session.user) {
         ;(session.user as any).id = (token as any).userId
+        ;(session.user as any).role = token.role
+        ;(session.user as any).impersonatorEmail = token.impersonatorEmail
         ;(session.user as any).subscriptionTier = (token as any).subscriptionTier
         ;(session.user as any).paymentMethod = (token as any).paymentMethod
+        ;(session.user as any).sessionId = token.sid
       }
       return session
     },
   },
+  events: {
+    async signIn({ user, account, profile }) {
+      // Signing in during the grace period keeps the account
+      await cancelAccountDeletion(user.id, { id: user.id, email: user.email })
+
+      // A provider that has verified the address counts as email verification
+      if (account?.type !== 'oauth' || !providerVerifiedEmail(account.provider, profile)) return
+      await prisma.user.updateMany({
+        where: { id: user.id, email: user.email ?? undefined, emailVerified: null },
+        data: { emailVerified: new Date() },
+      })
+    },
+    // Removes this browser from the device list
+    async signOut({ token }) {
+      if (token?.sid && token.userId) {
+        await revokeUserSession((token.impersonatorId ?? token.userId) as string, token.sid as string)
+      }
+    },
+  },
 }
 
 const handler = NextAuth(authOptions)
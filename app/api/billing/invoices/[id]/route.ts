@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { getInvoice, invoiceNumber } from '@/lib/billing/invoices'
+import { renderInvoiceHtml } from '@/lib/billing/invoice-html'
+
+// Printable invoice; ?download=1 saves it as a file instead of opening it
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const invoice = await getInvoice((session.user as any).id, params.id)
+    if (!invoice) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 })
+    }
+
+    const html = renderInvoiceHtml(invoice, { name: session.user.name ?? null, email: session.user.email })
+    const headers: Record<string, string> = { 'Content-Type': 'text/html; charset=utf-8' }
+    if (request.nextUrl.searchParams.get('download')) {
+      headers['Content-Disposition'] = `attachment; filename="invoice-${invoiceNumber(invoice)}.html"`
+    }
+
+    return new NextResponse(html, { headers })
+  } catch (error) {
+    console.error('Invoice error:', error)
+    return NextResponse.json({ error: 'Failed to render invoice' }, { status: 500 })
+  }
+}
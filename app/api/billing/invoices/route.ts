@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { invoiceNumber, listInvoices } from '@/lib/billing/invoices'
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const invoices = await listInvoices((session.user as any).id)
+
+    return NextResponse.json({
+      invoices: invoices.map((invoice) => ({
+        id: invoice.id,
+        number: invoiceNumber(invoice),
+        provider: invoice.provider,
+        status: invoice.status,
+        tier: invoice.tier,
+        description: invoice.description,
+        currency: invoice.currency,
+        subtotal: invoice.subtotal,
+        tax: invoice.tax,
+        total: invoice.total,
+        periodStart: invoice.periodStart,
+        periodEnd: invoice.periodEnd,
+        paidAt: invoice.paidAt,
+        createdAt: invoice.createdAt,
+      })),
+    })
+  } catch (error) {
+    console.error('Invoices error:', error)
+    return NextResponse.json({ error: 'Failed to load invoices' }, { status: 500 })
+  }
+}
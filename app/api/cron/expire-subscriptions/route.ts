@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { expireEndedSubscriptions } from '@/lib/billing/subscriptions'
+
+// Scheduled in vercel.json. Vercel sends CRON_SECRET as a bearer token.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const expired = await expireEndedSubscriptions()
+    return NextResponse.json({ expired })
+  } catch (error) {
+    console.error('Subscription expiry error:', error)
+    return NextResponse.json({ error: 'Failed to expire subscriptions' }, { status: 500 })
+  }
+}
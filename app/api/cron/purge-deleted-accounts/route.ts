@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { purgeDeletedAccounts } from '@/lib/account'
+
+// Scheduled in vercel.json. Vercel sends CRON_SECRET as a bearer token.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const purged = await purgeDeletedAccounts()
+    return NextResponse.json({ purged })
+  } catch (error) {
+    console.error('Account purge error:', error)
+    return NextResponse.json({ error: 'Failed to purge deleted accounts' }, { status: 500 })
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { prisma } from '@/lib/prisma'
+import { countFavorites, FEEDBACK_ACTIONS, saveFeedback } from '@/lib/feedback'
+import { getEntitlements } from '@/lib/entitlements'
+
+const FeedbackSchema = z.object({
+  itemId: z.string().min(1),
+  action: z.enum(FEEDBACK_ACTIONS),
+})
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = FeedbackSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid feedback' }, { status: 400 })
+    }
+
+    const { itemId, action } = parsed.data
+    const item = await prisma.recommendationItem.findUnique({ where: { id: itemId } })
+    if (!item) {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 })
+    }
+
+    const userId = (session.user as any).id
+    const { favorites } = getEntitlements((session.user as any).subscriptionTier)
+    if (action === 'like' && favorites !== null && (await countFavorites(userId, item.id)) >= favorites) {
+      return NextResponse.json(
+        { error: `Free accounts can save up to ${favorites} favorites`, code: 'FAVORITES_LIMIT', limit: favorites },
+        { status: 403 }
+      )
+    }
+
+    const feedback = await saveFeedback(userId, item.id, item.categoryId, action)
+
+    return NextResponse.json({ itemId: feedback.itemId, action: feedback.action })
+  } catch (error) {
+    console.error('Feedback error:', error)
+    return NextResponse.json({ error: 'Failed to save feedback' }, { status: 500 })
+  }
+}
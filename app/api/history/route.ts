@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { listHistory, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '@/lib/history'
+import { getEntitlements } from '@/lib/entitlements'
+
+const QuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  category: z.string().min(1).optional(),
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const searchParams = Object.fromEntries(request.nextUrl.searchParams)
+    const parsed = QuerySchema.safeParse(searchParams)
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid query parameters' }, { status: 400 })
+    }
+
+    const { page, pageSize, category } = parsed.data
+    const { historyLength } = getEntitlements((session.user as any).subscriptionTier)
+    const history = await listHistory((session.user as any).id, {
+      page,
+      pageSize,
+      categoryId: category,
+      limit: historyLength,
+    })
+
+    return NextResponse.json(history)
+  } catch (error) {
+    console.error('History error:', error)
+    return NextResponse.json({ error: 'Failed to load history' }, { status: 500 })
+  }
+}
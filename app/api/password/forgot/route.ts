@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requestPasswordReset } from '@/lib/password-reset'
+
+const ForgotSchema = z.object({ email: z.string().email() })
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = ForgotSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid email' }, { status: 400 })
+    }
+
+    const baseUrl = process.env.NEXTAUTH_URL || request.nextUrl.origin
+    await requestPasswordReset(parsed.data.email, baseUrl)
+
+    // Same answer whether or not the address has an account
+    return NextResponse.json({ ok: true })
+  } catch (error) {
+    console.error('Password reset request error:', error)
+    return NextResponse.json({ error: 'Failed to send email' }, { status: 500 })
+  }
+}
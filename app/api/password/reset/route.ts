@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { PasswordResetError, resetPassword } from '@/lib/password-reset'
+
+const ResetSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6),
+})
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = ResetSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Password must be at least 6 characters' }, { status: 400 })
+    }
+
+    const user = await resetPassword(parsed.data.token, parsed.data.password)
+    return NextResponse.json({ email: user.email })
+  } catch (error) {
+    if (error instanceof PasswordResetError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Password reset error:', error)
+    return NextResponse.json({ error: 'Failed to reset password' }, { status: 500 })
+  }
+}
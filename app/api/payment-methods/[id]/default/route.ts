@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { PaymentMethodError, setDefaultPaymentMethod } from '@/lib/billing/payment-methods'
+
+export async function POST(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    await setDefaultPaymentMethod((session.user as any).id, params.id)
+    return NextResponse.json({ isDefault: true })
+  } catch (error) {
+    if (error instanceof PaymentMethodError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status })
+    }
+    console.error('Default payment method error:', error)
+    return NextResponse.json({ error: 'Failed to update default payment method' }, { status: 500 })
+  }
+}
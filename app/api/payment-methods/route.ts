@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { listPaymentMethods } from '@/lib/billing/payment-methods'
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const paymentMethods = await listPaymentMethods((session.user as any).id)
+    return NextResponse.json({ paymentMethods })
+  } catch (error) {
+    console.error('Payment methods error:', error)
+    return NextResponse.json({ error: 'Failed to load payment methods' }, { status: 500 })
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { createSetupIntent, PaymentMethodError } from '@/lib/billing/payment-methods'
+
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json(await createSetupIntent((session.user as any).id))
+  } catch (error) {
+    if (error instanceof PaymentMethodError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status })
+    }
+    console.error('Setup intent error:', error)
+    return NextResponse.json({ error: 'Failed to start adding a card' }, { status: 500 })
+  }
+}
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/app/api/auth/[...nextauth]/route'
-import { PAYPAL_PLANS } from '@/lib/paypal'
+import { createSubscription, isPayPalDemoMode } from '@/lib/paypal'
 
 export async function POST(request: NextRequest) {
   try {
@@ -11,34 +11,33 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    const { tier } = await request.json()
+    const { tier } = (await request.json()) as { tier?: string }
 
     if (tier !== 'pro' && tier !== 'enterprise') {
       return NextResponse.json({ error: 'Invalid tier' }, { status: 400 })
     }
 
-    // For demo purposes, return mock subscription ID
-    // In production, create actual PayPal subscription
-    /*
-    const request = new paypal.billingagreements.BillingAgreement()
-    request.requestBody({
-      plan_id: PAYPAL_PLANS[tier].planId,
-      subscriber: {
-        email_address: session.user.email,
-      },
-      application_context: {
-        return_url: `${process.env.NEXTAUTH_URL}/settings?success=true`,
-        cancel_url: `${process.env.NEXTAUTH_URL}/settings?canceled=true`,
-      },
+    if (isPayPalDemoMode()) {
+      return NextResponse.json({
+        subscriptionId: `PAYPAL-DEMO-${tier.toUpperCase()}-${Date.now()}`,
+        approvalUrl: `/settings?demo_paypal_checkout=${tier}`,
+        demo: true,
+        message: 'Demo mode - PayPal subscription simulated',
+      })
+    }
+
+    const baseUrl = process.env.NEXTAUTH_URL || request.nextUrl.origin
+    const subscription = await createSubscription({
+      tier,
+      userId: (session.user as any).id,
+      email: session.user.email,
+      returnUrl: `${baseUrl}/api/paypal/return`,
+      cancelUrl: `${baseUrl}/pro?canceled=true`,
     })
-    const response = await paypalClient.execute(request)
-    */
 
-    // Mock response for demo
     return NextResponse.json({
-      subscriptionId: `PAYPAL-DEMO-${tier.toUpperCase()}-${Date.now()}`,
-      approvalUrl: `/settings?demo_paypal_checkout=${tier}`,
-      message: 'Demo mode - PayPal subscription simulated'
+      subscriptionId: subscription.id,
+      approvalUrl: subscription.approvalUrl,
     })
   } catch (error) {
     console.error('PayPal subscription error:', error)
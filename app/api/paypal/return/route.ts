@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { decodeCustomId, getSubscription } from '@/lib/paypal'
+import { activatePayPalSubscription } from '@/lib/billing/paypal-webhook'
+
+// PayPal sends the buyer back here after they approve the subscription
+export async function GET(request: NextRequest) {
+  const redirectTo = (path: string) => NextResponse.redirect(new URL(path, request.nextUrl.origin))
+
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.email) {
+      return redirectTo('/login')
+    }
+
+    const subscriptionId = request.nextUrl.searchParams.get('subscription_id')
+    if (!subscriptionId) {
+      return redirectTo('/pro?canceled=true')
+    }
+
+    // Never trust the query string: read the subscription back from PayPal
+    const subscription = await getSubscription(subscriptionId)
+    if (decodeCustomId(subscription.custom_id).userId !== (session.user as any).id) {
+      return NextResponse.json({ error: 'Subscription does not belong to this account' }, { status: 403 })
+    }
+
+    if (subscription.status === 'ACTIVE') {
+      await activatePayPalSubscription(subscription)
+      return redirectTo('/settings?success=true')
+    }
+
+    // APPROVED subscriptions are activated by PayPal shortly after; the webhook finishes the job
+    if (subscription.status === 'APPROVED' || subscription.status === 'APPROVAL_PENDING') {
+      return redirectTo('/settings?pending=true')
+    }
+
+    return redirectTo('/pro?canceled=true')
+  } catch (error) {
+    console.error('PayPal return error:', error)
+    return redirectTo('/settings?error=paypal')
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyWebhookSignature } from '@/lib/paypal'
+import { handlePayPalEvent, type PayPalWebhookEvent } from '@/lib/billing/paypal-webhook'
+import { processOnce } from '@/lib/billing/webhook-events'
+
+export async function POST(request: NextRequest) {
+  // Verified as received, then parsed
+  const rawBody = await request.text()
+  let event: PayPalWebhookEvent
+  try {
+    event = JSON.parse(rawBody)
+  } catch {
+    return NextResponse.json({ error: 'Invalid payload' }, { status: 400 })
+  }
+
+  try {
+    if (!(await verifyWebhookSignature(request.headers, rawBody))) {
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 400 })
+    }
+  } catch (error) {
+    console.error('PayPal webhook verification error:', error)
+    return NextResponse.json({ error: 'Webhook verification failed' }, { status: 500 })
+  }
+
+  try {
+    const { duplicate } = await processOnce('paypal', { id: event.id, type: event.event_type }, () =>
+      handlePayPalEvent(event)
+    )
+    return NextResponse.json({ received: true, duplicate })
+  } catch (error) {
+    console.error(`PayPal webhook ${event.id} (${event.event_type}) failed:`, error)
+    return NextResponse.json({ error: 'Webhook handler failed' }, { status: 500 })
+  }
+}
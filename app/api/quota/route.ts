@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { applyDeviceCookie, getQuota, quotaWindow, resolveSubject } from '@/lib/quota'
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    const subject = resolveSubject(request, (session?.user as any)?.id, (session?.user as any)?.subscriptionTier)
+    const window = quotaWindow(new Date())
+    const quota = await getQuota(subject, window)
+
+    return applyDeviceCookie(NextResponse.json(quota), subject)
+  } catch (error) {
+    console.error('Quota error:', error)
+    return NextResponse.json({ error: 'Failed to load quota' }, { status: 500 })
+  }
+}
@@ -1,6 +1,7 @@
 import { prisma } from '@/lib/prisma'
 import { z } from 'zod'
 import bcrypt from 'bcryptjs'
+import { sendVerificationEmail } from '@/lib/email-verification'
 
 const RegisterSchema = z.object({
   name: z.string().min(1).optional(),
@@ -21,7 +22,14 @@ export async function POST(request: Request) {
     const hashed = await bcrypt.hash(password, 10)
     const user = await prisma.user.create({ data: { name, email, password: hashed } })
 
-    return new Response(JSON.stringify({ id: user.id, email: user.email }), { status: 201 })
+    // The account cannot sign in until the address is confirmed. A failed send
+    // is not fatal: the login page offers to send the link again.
+    const baseUrl = process.env.NEXTAUTH_URL || new URL(request.url).origin
+    await sendVerificationEmail(user.email, baseUrl).catch((error) => {
+      console.error('Verification email error:', error)
+    })
+
+    return new Response(JSON.stringify({ id: user.id, email: user.email, verificationRequired: true }), { status: 201 })
   } catch (err: any) {
     const message = err?.message ?? 'Invalid request'
     return new Response(JSON.stringify({ error: message }), { status: 400 })
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/app/api/auth/[...nextauth]/route'
-import { stripe, STRIPE_PLANS } from '@/lib/stripe'
+import { prisma } from '@/lib/prisma'
+import { getOrCreateStripeCustomer, isStripeDemoMode, stripe, STRIPE_PLANS } from '@/lib/stripe'
 
 export async function POST(request: NextRequest) {
   try {
@@ -11,17 +12,31 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    const { tier } = await request.json()
+    const { tier } = (await request.json()) as { tier?: string }
 
     if (tier !== 'pro' && tier !== 'enterprise') {
       return NextResponse.json({ error: 'Invalid tier' }, { status: 400 })
     }
 
-    // For demo purposes, return a mock checkout URL
-    // In production, create actual Stripe Checkout Session:
-    /*
+    if (isStripeDemoMode()) {
+      return NextResponse.json({
+        url: `/settings?demo_stripe_checkout=${tier}`,
+        demo: true,
+        message: 'Demo mode - Stripe checkout simulated',
+      })
+    }
+
+    const user = await prisma.user.findUnique({ where: { email: session.user.email } })
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const baseUrl = process.env.NEXTAUTH_URL || request.nextUrl.origin
+    const customerId = await getOrCreateStripeCustomer(user)
+
     const checkoutSession = await stripe.checkout.sessions.create({
-      customer_email: session.user.email,
+      customer: customerId,
+      client_reference_id: user.id,
       line_items: [
         {
           price: STRIPE_PLANS[tier].priceId,
@@ -29,21 +44,25 @@ export async function POST(request: NextRequest) {
         },
       ],
       mode: 'subscription',
-      success_url: `${process.env.NEXTAUTH_URL}/settings?success=true`,
-      cancel_url: `${process.env.NEXTAUTH_URL}/settings?canceled=true`,
+      success_url: `${baseUrl}/settings?success=true&session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: `${baseUrl}/pro?canceled=true`,
       metadata: {
-        userId: (session.user as any).id,
+        userId: user.id,
         tier: tier,
       },
+      subscription_data: {
+        metadata: {
+          userId: user.id,
+          tier: tier,
+        },
+      },
     })
-    return NextResponse.json({ url: checkoutSession.url })
-    */
 
-    // Mock response for demo
-    return NextResponse.json({
-      url: `/settings?demo_stripe_checkout=${tier}`,
-      message: 'Demo mode - Stripe checkout simulated'
-    })
+    if (!checkoutSession.url) {
+      throw new Error(`Checkout session ${checkoutSession.id} has no URL`)
+    }
+
+    return NextResponse.json({ url: checkoutSession.url })
   } catch (error) {
     console.error('Stripe checkout error:', error)
     return NextResponse.json(
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type Stripe from 'stripe'
+import { stripe } from '@/lib/stripe'
+import { handleStripeEvent } from '@/lib/billing/stripe-webhook'
+import { processOnce } from '@/lib/billing/webhook-events'
+
+export async function POST(request: NextRequest) {
+  const secret = process.env.STRIPE_WEBHOOK_SECRET
+  if (!secret) {
+    console.error('Stripe webhook error: STRIPE_WEBHOOK_SECRET is not set')
+    return NextResponse.json({ error: 'Webhook not configured' }, { status: 500 })
+  }
+
+  const signature = request.headers.get('stripe-signature')
+  if (!signature) {
+    return NextResponse.json({ error: 'Missing signature' }, { status: 400 })
+  }
+
+  let event: Stripe.Event
+  try {
+    // Signature verification needs the exact raw body
+    event = stripe.webhooks.constructEvent(await request.text(), signature, secret)
+  } catch (error) {
+    console.error('Stripe webhook signature verification failed:', error)
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 400 })
+  }
+
+  try {
+    const { duplicate } = await processOnce('stripe', event, () => handleStripeEvent(event))
+    return NextResponse.json({ received: true, duplicate })
+  } catch (error) {
+    console.error(`Stripe webhook ${event.id} (${event.type}) failed:`, error)
+    return NextResponse.json({ error: 'Webhook handler failed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { cancelSubscription, SubscriptionError } from '@/lib/billing/subscriptions'
+
+const CancelSchema = z.object({
+  // Cancel right away instead of at the end of the paid period
+  immediately: z.boolean().optional(),
+})
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = CancelSchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request' }, { status: 400 })
+    }
+
+    const subscription = await cancelSubscription((session.user as any).id, parsed.data)
+    return NextResponse.json(subscription)
+  } catch (error) {
+    if (error instanceof SubscriptionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status })
+    }
+    console.error('Subscription cancel error:', error)
+    return NextResponse.json({ error: 'Failed to cancel subscription' }, { status: 500 })
+  }
+}
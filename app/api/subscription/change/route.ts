@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { changePlan, previewPlanChange, SubscriptionError } from '@/lib/billing/subscriptions'
+
+const ChangeSchema = z.object({
+  tier: z.enum(['pro', 'enterprise']),
+  // Only return what the change would cost, without applying it
+  preview: z.boolean().optional(),
+})
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = ChangeSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid tier' }, { status: 400 })
+    }
+
+    const userId = (session.user as any).id
+    const { tier, preview } = parsed.data
+
+    if (preview) {
+      return NextResponse.json({ preview: await previewPlanChange(userId, tier) })
+    }
+
+    const baseUrl = process.env.NEXTAUTH_URL || request.nextUrl.origin
+    return NextResponse.json(await changePlan(userId, tier, { baseUrl }))
+  } catch (error) {
+    if (error instanceof SubscriptionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status })
+    }
+    console.error('Subscription change error:', error)
+    return NextResponse.json({ error: 'Failed to change subscription' }, { status: 500 })
+  }
+}
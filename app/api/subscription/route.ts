@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { prisma } from '@/lib/prisma'
+import { subscriptionState } from '@/lib/billing/subscriptions'
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: (session.user as any).id } })
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(subscriptionState(user))
+  } catch (error) {
+    console.error('Subscription error:', error)
+    return NextResponse.json({ error: 'Failed to load subscription' }, { status: 500 })
+  }
+}
@@ -1,17 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
 import { prisma } from '@/lib/prisma'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { requireRole } from '@/lib/auth'
+import { recordAudit } from '@/lib/audit'
+import { TIERS } from '@/lib/entitlements'
 
-export async function POST() {
-  const session = await getServerSession(authOptions)
-  if (!session?.user?.email) {
-    return new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401 })
-  }
-  const user = await prisma.user.update({
-    where: { email: session.user.email },
-    data: { isPro: true },
+const OverrideSchema = z
+  .object({
+    userId: z.string().min(1).optional(),
+    email: z.string().email().optional(),
+    tier: z.enum(TIERS),
+    reason: z.string().trim().min(3).max(500),
   })
-  return new Response(JSON.stringify({ isPro: user.isPro }), { status: 200 })
-}
+  .refine((body) => body.userId || body.email, { message: 'userId or email is required' })
+
+// Admin-only override of a user's tier, e.g. for comps or support fixes. It
+// does not touch the user's Stripe/PayPal subscription, whose webhooks may set
+// the tier again later.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireRole('admin')
+    if (!auth.ok) return auth.response
+
+    const parsed = OverrideSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 })
+    }
 
+    const { userId, email, tier, reason } = parsed.data
+    const target = await prisma.user.findUnique({ where: userId ? { id: userId } : { email: email! } })
+    if (!target) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
 
+    const user = await prisma.user.update({
+      where: { id: target.id },
+      data: { subscriptionTier: tier },
+    })
+
+    await recordAudit({
+      actor: { id: auth.userId, email: auth.session.user?.email },
+      action: 'user.tier_override',
+      targetId: user.id,
+      reason,
+      details: { from: target.subscriptionTier, to: tier },
+    })
+
+    // Session claims are re-read from the database by the jwt callback, so the
+    // user sees the new tier on their next request without signing in again
+    return NextResponse.json({ userId: user.id, email: user.email, subscriptionTier: user.subscriptionTier })
+  } catch (error) {
+    console.error('Tier override error:', error)
+    return NextResponse.json({ error: 'Failed to update tier' }, { status: 500 })
+  }
+}
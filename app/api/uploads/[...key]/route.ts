@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getStorage, IMAGE_TYPES } from '@/lib/storage'
+
+const CONTENT_TYPES = Object.fromEntries(Object.entries(IMAGE_TYPES).map(([type, extension]) => [extension, type]))
+
+// Serves files saved by the local storage adapter
+export async function GET(_request: NextRequest, { params }: { params: { key: string[] } }) {
+  const key = params.key.join('/')
+  const data = await getStorage().read(key)
+  if (!data) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  return new NextResponse(new Uint8Array(data), {
+    headers: {
+      'Content-Type': CONTENT_TYPES[key.split('.').pop() ?? ''] ?? 'application/octet-stream',
+      // Keys are random and never reused
+      'Cache-Control': 'public, max-age=31536000, immutable',
+    },
+  })
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { VerificationError, verifyEmail } from '@/lib/email-verification'
+
+const VerifySchema = z.object({ token: z.string().min(1) })
+
+// The emailed link opens /verify-email, which posts the token here. Doing the
+// work on POST keeps link scanners in mail clients from using up the token.
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = VerifySchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request' }, { status: 400 })
+    }
+
+    const user = await verifyEmail(parsed.data.token)
+    return NextResponse.json({ email: user.email })
+  } catch (error) {
+    if (error instanceof VerificationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Email verification error:', error)
+    return NextResponse.json({ error: 'Failed to verify email' }, { status: 500 })
+  }
+}
@@ -3,9 +3,21 @@
 import { useState, useEffect } from "react"
 import { motion, AnimatePresence } from "framer-motion"
 import Link from "next/link"
+import { useSession } from "next-auth/react"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
+import { SkipForward, ThumbsDown, ThumbsUp } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+
+type FeedbackAction = "like" | "dislike" | "skip"
+
+interface Quota {
+  limit: number | null
+  used: number
+  remaining: number | null
+  resetAt: string
+}
 
 interface Recommendation {
   id: string
@@ -49,7 +61,11 @@ const categoryConfig = {
 }
 
 export default function CategoryPage({ params }: { params: { id: string } }) {
+  const { status } = useSession()
+  const { toast } = useToast()
   const [currentRecommendation, setCurrentRecommendation] = useState<Recommendation | null>(null)
+  const [feedback, setFeedback] = useState<FeedbackAction | null>(null)
+  const [quota, setQuota] = useState<Quota | null>(null)
   const [history, setHistory] = useState<Recommendation[]>([])
   const [isShaking, setIsShaking] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
@@ -57,12 +73,27 @@ export default function CategoryPage({ params }: { params: { id: string } }) {
   const category = categoryConfig[params.id as keyof typeof categoryConfig]
 
   useEffect(() => {
-    // Load history from localStorage
-    const savedHistory = localStorage.getItem(`history_${params.id}`)
-    if (savedHistory) {
-      setHistory(JSON.parse(savedHistory))
-    }
-  }, [params.id])
+    // Signed-in users get their history from the server; anonymous history lives for this visit only
+    if (status !== "authenticated") return
+
+    fetch(`/api/history?category=${params.id}&pageSize=3`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (data?.items) {
+          setHistory(data.items.map((entry: { recommendation: Recommendation }) => entry.recommendation))
+        }
+      })
+      .catch((error) => console.error("Error loading history:", error))
+  }, [params.id, status])
+
+  useEffect(() => {
+    if (status === "loading") return
+
+    fetch("/api/quota")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => data && setQuota(data))
+      .catch((error) => console.error("Error loading quota:", error))
+  }, [status])
 
   const handleShake = async () => {
     setIsShaking(true)
@@ -74,18 +105,44 @@ export default function CategoryPage({ params }: { params: { id: string } }) {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ user_id: "default" }),
+        body: JSON.stringify({}),
       })
 
-      const recommendation = await response.json()
+      const data = await response.json()
+
+      if (!response.ok) {
+        if (response.status === 429 && data.quota) {
+          setQuota(data.quota)
+          toast({
+            title: "Daily limit reached",
+            description: `You've used all ${data.quota.limit} free recommendations today. Upgrade to Pro for unlimited shakes.`,
+            variant: "destructive",
+          })
+        } else {
+          toast({ title: "Error", description: data.error || "Failed to get a recommendation.", variant: "destructive" })
+        }
+        setIsShaking(false)
+        setIsLoading(false)
+        return
+      }
+
+      const recommendation = data
+      const remaining = response.headers.get("X-Quota-Remaining")
+      if (remaining !== null) {
+        setQuota((prev) => ({
+          limit: remaining === "unlimited" ? null : Number(response.headers.get("X-Quota-Limit")),
+          used: (prev?.used ?? 0) + 1,
+          remaining: remaining === "unlimited" ? null : Number(remaining),
+          resetAt: response.headers.get("X-Quota-Reset") ?? prev?.resetAt ?? "",
+        }))
+      }
 
       setTimeout(() => {
         setCurrentRecommendation(recommendation)
+        setFeedback(null)
 
         // Update history
-        const newHistory = [recommendation, ...history.slice(0, 2)]
-        setHistory(newHistory)
-        localStorage.setItem(`history_${params.id}`, JSON.stringify(newHistory))
+        setHistory((prev) => [recommendation, ...prev.slice(0, 2)])
 
         setIsShaking(false)
         setIsLoading(false)
@@ -97,6 +154,39 @@ export default function CategoryPage({ params }: { params: { id: string } }) {
     }
   }
 
+  const sendFeedback = async (action: FeedbackAction) => {
+    if (!currentRecommendation) return
+
+    // Anonymous users can still skip, it just isn't remembered
+    if (status === "authenticated") {
+      try {
+        const response = await fetch("/api/feedback", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ itemId: currentRecommendation.id, action }),
+        })
+        if (response.status === 403) {
+          const data = await response.json()
+          toast({ title: "Favorites full", description: data.error, variant: "destructive" })
+          return
+        }
+        if (!response.ok) throw new Error(`Feedback failed with ${response.status}`)
+        setFeedback(action)
+      } catch (error) {
+        console.error("Error saving feedback:", error)
+        toast({ title: "Error", description: "Failed to save feedback.", variant: "destructive" })
+        return
+      }
+    }
+
+    if (action === "dislike") {
+      toast({ title: "Got it", description: "We won't recommend this again." })
+    }
+    if (action === "dislike" || action === "skip") {
+      handleShake()
+    }
+  }
+
   const renderRecommendation = (rec: Recommendation) => {
     switch (params.id) {
       case "entertainment":
@@ -109,6 +199,7 @@ export default function CategoryPage({ params }: { params: { id: string } }) {
             </div>
             <h3 className="text-xl font-semibold mb-2">{rec.title}</h3>
             <p className="text-gray-600">{rec.description}</p>
+            {rec.reason && <p className="text-sm text-gray-500 mt-2">{rec.reason}</p>}
           </Card>
         )
 
@@ -122,6 +213,7 @@ export default function CategoryPage({ params }: { params: { id: string } }) {
             </div>
             <h3 className="text-xl font-semibold mb-2">{rec.title}</h3>
             <p className="text-2xl font-bold text-[#FF6B6B] mb-4">{rec.price}</p>
+            {rec.reason && <p className="text-sm text-gray-500 mb-4">{rec.reason}</p>}
             <Button className="w-full bg-[#FF6B6B] hover:bg-[#FF5252]">Buy Now</Button>
           </Card>
         )
@@ -150,6 +242,7 @@ export default function CategoryPage({ params }: { params: { id: string } }) {
             <p className="text-gray-600 mb-2">{rec.description}</p>
             {rec.duration && <p className="text-sm text-gray-500 mb-1">Duration: {rec.duration}</p>}
             {rec.weather && <p className="text-sm text-gray-500">Weather: {rec.weather}</p>}
+            {rec.reason && <p className="text-sm text-gray-500 mt-2">{rec.reason}</p>}
           </Card>
         )
 
@@ -215,6 +308,21 @@ export default function CategoryPage({ params }: { params: { id: string } }) {
             </Button>
           </motion.div>
           <p className="text-gray-600 mt-4">Tap to get a random recommendation</p>
+          {quota && quota.limit !== null && (
+            <p className={`text-sm mt-2 ${quota.remaining === 0 ? "text-red-500" : "text-gray-500"}`}>
+              {quota.remaining} of {quota.limit} free recommendations left today
+              {quota.remaining === 0 && (
+                <>
+                  {" "}· resets at{" "}
+                  {new Date(quota.resetAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}{" "}
+                  ·{" "}
+                  <Link href="/pro" className="text-blue-600">
+                    Go Pro
+                  </Link>
+                </>
+              )}
+            </p>
+          )}
         </div>
 
         {/* Current Recommendation */}
@@ -229,6 +337,29 @@ export default function CategoryPage({ params }: { params: { id: string } }) {
               className="mb-8"
             >
               {renderRecommendation(currentRecommendation)}
+              <div className="flex justify-center gap-3 mt-4">
+                {status === "authenticated" && (
+                  <>
+                    <Button
+                      variant={feedback === "like" ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => sendFeedback("like")}
+                      disabled={isLoading}
+                    >
+                      <ThumbsUp className="h-4 w-4 mr-1" />
+                      Like
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => sendFeedback("dislike")} disabled={isLoading}>
+                      <ThumbsDown className="h-4 w-4 mr-1" />
+                      Not for me
+                    </Button>
+                  </>
+                )}
+                <Button variant="ghost" size="sm" onClick={() => sendFeedback("skip")} disabled={isLoading}>
+                  <SkipForward className="h-4 w-4 mr-1" />
+                  Skip
+                </Button>
+              </div>
             </motion.div>
           )}
         </AnimatePresence>
@@ -236,7 +367,14 @@ export default function CategoryPage({ params }: { params: { id: string } }) {
         {/* History */}
         {history.length > 0 && (
           <div>
-            <h2 className="text-lg font-semibold text-gray-800 mb-4">Recent History</h2>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-gray-800">Recent History</h2>
+              {status === "authenticated" && (
+                <Link href="/history" className="text-sm text-blue-600">
+                  View all
+                </Link>
+              )}
+            </div>
             <div className="space-y-3">
               {history.map((item, index) => (
                 <motion.div
@@ -0,0 +1,55 @@
+"use client"
+import { getSession } from 'next-auth/react'
+import { useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+
+export default function ConfirmEmailPage() {
+  const [status, setStatus] = useState<'confirming' | 'confirmed' | 'failed'>('confirming')
+  const [message, setMessage] = useState<string | null>(null)
+  const started = useRef(false)
+
+  useEffect(() => {
+    // Tokens are single-use, so guard against the effect running twice in dev
+    if (started.current) return
+    started.current = true
+
+    const token = new URLSearchParams(window.location.search).get('token')
+    if (!token) {
+      setStatus('failed')
+      setMessage('This link is missing its token.')
+      return
+    }
+
+    fetch('/api/account/email/confirm', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token }),
+    })
+      .then(async (res) => {
+        const data = await res.json().catch(() => ({}))
+        setStatus(res.ok ? 'confirmed' : 'failed')
+        setMessage(res.ok ? `You now sign in with ${data.email}.` : data?.error ?? 'Could not change your email')
+        // Refreshes the session, in this and other open tabs, with the new address
+        if (res.ok) await getSession()
+      })
+      .catch(() => {
+        setStatus('failed')
+        setMessage('Could not change your email')
+      })
+  }, [])
+
+  return (
+    <div className="mx-auto max-w-sm py-24 space-y-6">
+      <h1 className="text-2xl font-semibold">
+        {status === 'confirming' ? 'Changing your email...' : status === 'confirmed' ? 'Email changed' : 'Could not change email'}
+      </h1>
+      {message && <p className={status === 'failed' ? 'text-red-600 text-sm' : 'text-sm text-gray-600'}>{message}</p>}
+      {status !== 'confirming' && (
+        <Link href="/settings">
+          <Button className="w-full">Go to settings</Button>
+        </Link>
+      )}
+    </div>
+  )
+}
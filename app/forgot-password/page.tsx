@@ -0,0 +1,55 @@
+"use client"
+import { useState } from 'react'
+import Link from 'next/link'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [sent, setSent] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setError(null)
+    const res = await fetch('/api/password/forgot', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email }),
+    })
+    setLoading(false)
+    if (res.ok) setSent(true)
+    else {
+      const data = await res.json().catch(() => ({}))
+      setError(data?.error ?? 'Something went wrong')
+    }
+  }
+
+  if (sent) {
+    return (
+      <div className="mx-auto max-w-sm py-24 space-y-4">
+        <h1 className="text-2xl font-semibold">Check your email</h1>
+        <p className="text-sm text-gray-600">
+          If <strong>{email}</strong> has an account, we sent it a link to choose a new password. The link expires in one hour.
+        </p>
+        <Link href="/login">
+          <Button variant="outline" className="w-full">Back to login</Button>
+        </Link>
+      </div>
+    )
+  }
+
+  return (
+    <div className="mx-auto max-w-sm py-24">
+      <h1 className="text-2xl font-semibold mb-2">Forgot password</h1>
+      <p className="text-sm text-gray-600 mb-6">Enter your email and we will send you a link to reset your password.</p>
+      <form onSubmit={onSubmit} className="space-y-4">
+        <Input type="email" placeholder="Email" value={email} onChange={e => setEmail(e.target.value)} required />
+        {error && <p className="text-red-600 text-sm">{error}</p>}
+        <Button type="submit" disabled={loading} className="w-full">{loading ? 'Sending...' : 'Send reset link'}</Button>
+      </form>
+    </div>
+  )
+}
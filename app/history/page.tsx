@@ -0,0 +1,147 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useSession } from "next-auth/react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination"
+import { ArrowLeft } from "lucide-react"
+
+interface HistoryEntry {
+  id: string
+  categoryId: string
+  createdAt: string
+  recommendation: {
+    id: string
+    title: string
+    description?: string
+    reason?: string
+  }
+}
+
+interface HistoryPage {
+  items: HistoryEntry[]
+  page: number
+  totalPages: number
+  total: number
+}
+
+const categoryLabels: Record<string, { title: string; icon: string }> = {
+  entertainment: { title: "随机娱乐", icon: "🎲" },
+  shopping: { title: "随机购物", icon: "🛍️" },
+  food: { title: "随机吃", icon: "🍜" },
+  travel: { title: "随机出行", icon: "🏞️" },
+  fitness: { title: "随机健身", icon: "💪" },
+}
+
+export default function HistoryPage() {
+  const { status } = useSession()
+  const router = useRouter()
+  const [page, setPage] = useState(1)
+  const [data, setData] = useState<HistoryPage | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    if (status === "unauthenticated") router.push("/login")
+  }, [status, router])
+
+  useEffect(() => {
+    if (status !== "authenticated") return
+
+    setIsLoading(true)
+    fetch(`/api/history?page=${page}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((json) => setData(json))
+      .catch((error) => console.error("Error loading history:", error))
+      .finally(() => setIsLoading(false))
+  }, [page, status])
+
+  const goTo = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault()
+    if (data && target >= 1 && target <= data.totalPages) setPage(target)
+  }
+
+  if (status !== "authenticated") {
+    return null
+  }
+
+  return (
+    <div className="min-h-screen bg-[#F7F9FC] p-4">
+      <div className="max-w-md mx-auto">
+        {/* Header */}
+        <div className="flex items-center mb-8 pt-8">
+          <Link href="/">
+            <Button variant="ghost" size="sm" className="mr-4">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Button>
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-800">History</h1>
+        </div>
+
+        {isLoading && !data && <p className="text-center text-gray-500">Loading...</p>}
+
+        {data && data.items.length === 0 && (
+          <p className="text-center text-gray-500">No recommendations yet. Give a category a shake!</p>
+        )}
+
+        {data && data.items.length > 0 && (
+          <>
+            <div className="space-y-3 mb-6">
+              {data.items.map((entry) => {
+                const label = categoryLabels[entry.categoryId]
+                return (
+                  <Card key={entry.id} className="p-4">
+                    <div className="flex items-center space-x-3">
+                      <div className="w-12 h-12 bg-gray-200 rounded-lg flex items-center justify-center">
+                        <span className="text-xl">{label?.icon ?? "✨"}</span>
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <h4 className="font-medium text-gray-800 truncate">{entry.recommendation.title}</h4>
+                          {label && <Badge variant="secondary">{label.title}</Badge>}
+                        </div>
+                        <p className="text-sm text-gray-600 truncate">
+                          {entry.recommendation.reason || entry.recommendation.description}
+                        </p>
+                        <p className="text-xs text-gray-400">{new Date(entry.createdAt).toLocaleString()}</p>
+                      </div>
+                    </div>
+                  </Card>
+                )
+              })}
+            </div>
+
+            {data.totalPages > 1 && (
+              <Pagination>
+                <PaginationContent>
+                  <PaginationItem>
+                    <PaginationPrevious href="#" onClick={goTo(data.page - 1)} />
+                  </PaginationItem>
+                  <PaginationItem>
+                    <PaginationLink href="#" isActive onClick={(e) => e.preventDefault()}>
+                      {data.page}
+                    </PaginationLink>
+                  </PaginationItem>
+                  <PaginationItem>
+                    <PaginationNext href="#" onClick={goTo(data.page + 1)} />
+                  </PaginationItem>
+                </PaginationContent>
+              </Pagination>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -3,6 +3,7 @@ import type { Metadata } from "next"
 import { Inter } from "next/font/google"
 import "./globals.css"
 import AuthProvider from "@/components/auth-provider"
+import { ImpersonationBanner } from "@/components/impersonation-banner"
 import { Toaster } from "@/components/ui/toaster"
 
 const inter = Inter({ subsets: ["latin"] })
@@ -23,6 +24,7 @@ export default function RootLayout({
     <html lang="en">
       <body className={inter.className}>
         <AuthProvider>
+          <ImpersonationBanner />
           <div className="min-h-screen bg-[#F7F9FC]">{children}</div>
           <Toaster />
         </AuthProvider>
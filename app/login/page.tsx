@@ -1,9 +1,47 @@
 "use client"
-import { signIn } from 'next-auth/react'
-import { useState } from 'react'
+import { getProviders, signIn, type ClientSafeProvider } from 'next-auth/react'
+import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
+import Link from 'next/link'
 import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp'
+
+// authorize() throws these codes, which signIn() returns as res.error; OAuth
+// failures arrive as /login?error=<code>
+function loginError(code?: string | null) {
+  switch (code) {
+    case 'OAuthAccountNotLinked':
+      return 'An account with this email already exists. Log in with your password instead.'
+    case 'OAuthEmailNotVerified':
+      return 'That provider has not verified your email address. Verify it there first, or sign up with a password.'
+    case 'OAuthSignin':
+    case 'OAuthCallback':
+    case 'Callback':
+      return 'Could not sign in with that provider. Please try again.'
+    case 'EmailNotVerified':
+      return 'Please confirm your email address first. Check your inbox for the link we sent.'
+    case 'TwoFactorInvalid':
+      return 'That code is not valid. Try the latest code from your app.'
+    case 'AccountDisabled':
+      return 'This account has been disabled. Please contact support.'
+    default:
+      return 'Invalid credentials'
+  }
+}
+
+// AccountLocked:<ms since epoch> means sign-in is paused until that time
+function lockedUntil(code?: string | null) {
+  const match = code?.match(/^AccountLocked:(\d+)$/)
+  return match ? Number(match[1]) : null
+}
+
+function lockoutMessage(remainingMs: number) {
+  const seconds = Math.ceil(remainingMs / 1000)
+  if (seconds < 60) return `Too many failed attempts. Try again in ${seconds} second${seconds === 1 ? '' : 's'}.`
+  const minutes = Math.ceil(seconds / 60)
+  return `Too many failed attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`
+}
 
 export default function LoginPage() {
   const router = useRouter()
@@ -11,15 +49,105 @@ export default function LoginPage() {
   const [password, setPassword] = useState('')
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [unverified, setUnverified] = useState(false)
+  const [resent, setResent] = useState(false)
+  // Second step, shown when the account has two-factor authentication on
+  const [needsCode, setNeedsCode] = useState(false)
+  const [otp, setOtp] = useState('')
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
+  const [oauthProviders, setOauthProviders] = useState<ClientSafeProvider[]>([])
+  const [lockedAt, setLockedAt] = useState<number | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const code = new URLSearchParams(window.location.search).get('error')
+    if (code) setError(loginError(code))
+    getProviders().then((providers) =>
+      setOauthProviders(Object.values(providers ?? {}).filter((provider) => provider.type === 'oauth'))
+    )
+  }, [])
+
+  // Counts the lockout down and clears it once it has passed
+  useEffect(() => {
+    if (!lockedAt) return
+    const timer = setInterval(() => {
+      setNow(Date.now())
+      if (Date.now() >= lockedAt) setLockedAt(null)
+    }, 1000)
+    return () => clearInterval(timer)
+  }, [lockedAt])
+
+  const locked = lockedAt !== null && lockedAt > now
 
   const onSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setLoading(true)
     setError(null)
-    const res = await signIn('credentials', { email, password, redirect: false })
+    setUnverified(false)
+    const res = await signIn('credentials', { email, password, otp, redirect: false })
     setLoading(false)
-    if (res?.ok) router.push('/')
-    else setError('Invalid credentials')
+    if (res?.ok) {
+      router.push('/')
+      return
+    }
+    if (res?.error === 'TwoFactorRequired') {
+      setNeedsCode(true)
+      return
+    }
+    setOtp('')
+    setUnverified(res?.error === 'EmailNotVerified')
+    const until = lockedUntil(res?.error)
+    setNow(Date.now())
+    setLockedAt(until)
+    setError(until ? null : loginError(res?.error))
+  }
+
+  const resend = async () => {
+    await fetch('/api/verify-email/resend', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email }),
+    })
+    setResent(true)
+  }
+
+  if (needsCode) {
+    return (
+      <div className="mx-auto max-w-sm py-24">
+        <h1 className="text-2xl font-semibold mb-2">Two-factor authentication</h1>
+        <p className="text-sm text-gray-600 mb-6">
+          {useRecoveryCode
+            ? 'Enter one of the recovery codes you saved when you turned on two-factor authentication.'
+            : 'Enter the 6-digit code from your authenticator app.'}
+        </p>
+        <form onSubmit={onSubmit} className="space-y-4">
+          {useRecoveryCode ? (
+            <Input placeholder="xxxxx-xxxxx" value={otp} onChange={e => setOtp(e.target.value)} autoComplete="one-time-code" required />
+          ) : (
+            <InputOTP maxLength={6} value={otp} onChange={setOtp} autoFocus containerClassName="justify-center">
+              <InputOTPGroup>
+                {Array.from({ length: 6 }, (_, index) => <InputOTPSlot key={index} index={index} />)}
+              </InputOTPGroup>
+            </InputOTP>
+          )}
+          {error && <p className="text-red-600 text-sm">{error}</p>}
+          {locked && <p className="text-red-600 text-sm">{lockoutMessage(lockedAt - now)}</p>}
+          <Button type="submit" disabled={loading || locked || (!useRecoveryCode && otp.length < 6)} className="w-full">{loading ? 'Verifying...' : 'Verify'}</Button>
+          <Button
+            type="button"
+            variant="link"
+            className="w-full"
+            onClick={() => {
+              setUseRecoveryCode(!useRecoveryCode)
+              setOtp('')
+              setError(null)
+            }}
+          >
+            {useRecoveryCode ? 'Use your authenticator app' : 'Use a recovery code'}
+          </Button>
+        </form>
+      </div>
+    )
   }
 
   return (
@@ -29,8 +157,25 @@ export default function LoginPage() {
         <Input type="email" placeholder="Email" value={email} onChange={e => setEmail(e.target.value)} required />
         <Input type="password" placeholder="Password" value={password} onChange={e => setPassword(e.target.value)} required />
         {error && <p className="text-red-600 text-sm">{error}</p>}
-        <Button type="submit" disabled={loading} className="w-full">{loading ? 'Logging in...' : 'Login'}</Button>
+        {locked && <p className="text-red-600 text-sm">{lockoutMessage(lockedAt - now)}</p>}
+        {unverified && (
+          <Button type="button" variant="outline" className="w-full" onClick={resend} disabled={resent}>
+            {resent ? 'Email sent' : 'Send the link again'}
+          </Button>
+        )}
+        <Button type="submit" disabled={loading || locked} className="w-full">{loading ? 'Logging in...' : 'Login'}</Button>
+        <Link href="/forgot-password" className="block text-sm text-center text-gray-600 hover:underline">Forgot password?</Link>
       </form>
+      {oauthProviders.length > 0 && (
+        <div className="mt-6 space-y-2">
+          <p className="text-sm text-center text-gray-500">or continue with</p>
+          {oauthProviders.map((provider) => (
+            <Button key={provider.id} variant="outline" className="w-full" onClick={() => signIn(provider.id, { callbackUrl: '/' })}>
+              {provider.name}
+            </Button>
+          ))}
+        </div>
+      )}
     </div>
   )
 }
@@ -5,7 +5,9 @@ import Link from "next/link"
 import { Card } from "@/components/ui/card"
 import { useSession, signOut } from "next-auth/react"
 import { Button } from "@/components/ui/button"
-import { Settings } from "lucide-react"
+import { History, Settings } from "lucide-react"
+import { TierBadge } from "@/components/tier-badge"
+import { useEntitlements } from "@/hooks/use-entitlements"
 
 const categories = [
   {
@@ -47,6 +49,7 @@ const categories = [
 
 export default function HomePage() {
   const { data: session } = useSession()
+  const { tier } = useEntitlements()
   return (
     <div className="min-h-screen bg-[#F7F9FC] p-4">
       <div className="max-w-md mx-auto">
@@ -57,14 +60,14 @@ export default function HomePage() {
             <p className="text-gray-600 text-sm">Daily Discovery</p>
           </div>
           <div className="flex items-center gap-2">
-            {(session as any)?.user?.subscriptionTier === "pro" && (
-              <span className="px-2 py-1 text-xs rounded bg-green-100 text-green-700">PRO</span>
-            )}
-            {(session as any)?.user?.subscriptionTier === "enterprise" && (
-              <span className="px-2 py-1 text-xs rounded bg-purple-100 text-purple-700 font-medium">ENTERPRISE</span>
-            )}
+            {tier !== "free" && <TierBadge tier={tier} className="px-2 text-xs rounded uppercase" />}
             {session ? (
               <>
+                <Link href="/history">
+                  <Button variant="ghost" size="icon" className="h-8 w-8">
+                    <History className="h-4 w-4" />
+                  </Button>
+                </Link>
                 <Link href="/settings">
                   <Button variant="ghost" size="icon" className="h-8 w-8">
                     <Settings className="h-4 w-4" />
@@ -11,9 +11,10 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { Label } from "@/components/ui/label"
 import { Check, Crown, Zap, Building2, CreditCard, ArrowLeft } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
+import { useEntitlements } from "@/hooks/use-entitlements"
+import { formatPlanPrice, planFeatures, PLANS, type Tier } from "@/lib/entitlements"
 
 type PaymentMethod = "stripe" | "paypal"
-type Tier = "free" | "pro" | "enterprise"
 
 export default function PricingPage() {
   const { data: session } = useSession()
@@ -22,7 +23,7 @@ export default function PricingPage() {
   const [selectedPayment, setSelectedPayment] = useState<PaymentMethod>("stripe")
   const [isProcessing, setIsProcessing] = useState(false)
 
-  const currentTier = (session as any)?.user?.subscriptionTier || "free"
+  const { tier: currentTier } = useEntitlements()
 
   const handleSubscribe = async (tier: Tier) => {
     if (!session) {
@@ -30,6 +31,12 @@ export default function PricingPage() {
       return
     }
 
+    // Existing subscriptions are switched or canceled from Settings, not with a second checkout
+    if (currentTier !== "free") {
+      router.push("/settings?tab=subscription")
+      return
+    }
+
     if (tier === "free") {
       toast({
         title: "Already on free tier",
@@ -53,19 +60,24 @@ export default function PricingPage() {
 
       const data = await response.json()
 
-      if (data.url || data.approvalUrl) {
-        // Simulate payment success for demo
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to initiate payment")
+      }
+
+      const redirectUrl = data.url || data.approvalUrl
+
+      if (data.demo) {
+        // Demo mode: nothing is charged, just show what would happen
         toast({
           title: `${selectedPayment === "stripe" ? "Stripe" : "PayPal"} Checkout`,
           description: data.message || "Redirecting to payment...",
         })
 
-        // In production, redirect to actual payment URL
-        // window.location.href = data.url || data.approvalUrl
-
         setTimeout(() => {
-          router.push("/settings")
+          router.push(redirectUrl || "/settings")
         }, 2000)
+      } else if (redirectUrl) {
+        window.location.href = redirectUrl
       }
     } catch (error) {
       toast({
@@ -78,63 +90,39 @@ export default function PricingPage() {
     }
   }
 
-  const plans = [
+  const planStyles = [
     {
       id: "free" as Tier,
-      name: "Free",
-      price: "$0",
       icon: Zap,
       color: "text-gray-600",
       bgColor: "bg-gray-50",
       borderColor: "border-gray-200",
-      features: [
-        "5 recommendations per day",
-        "Basic categories",
-        "Local history (3 items)",
-        "Community support",
-      ],
     },
     {
       id: "pro" as Tier,
-      name: "Pro",
-      price: "$9.99",
       icon: Crown,
       color: "text-blue-600",
       bgColor: "bg-blue-50",
       borderColor: "border-blue-300",
       popular: true,
-      features: [
-        "Unlimited recommendations",
-        "All categories",
-        "Advanced AI personalization",
-        "Save unlimited favorites",
-        "Priority email support",
-        "Ad-free experience",
-        "Custom preferences",
-      ],
     },
     {
       id: "enterprise" as Tier,
-      name: "Max Enterprise",
-      price: "$49.99",
       icon: Building2,
       color: "text-purple-600",
       bgColor: "bg-purple-50",
       borderColor: "border-purple-300",
-      features: [
-        "Everything in Pro",
-        "API access",
-        "White-label options",
-        "Dedicated account manager",
-        "24/7 phone support",
-        "Custom integrations",
-        "Advanced analytics",
-        "Team collaboration (up to 10 users)",
-        "SLA guarantee",
-      ],
     },
   ]
 
+  // Names, prices and features come from the same entitlements the API enforces
+  const plans = planStyles.map((style) => ({
+    ...style,
+    name: PLANS[style.id].name,
+    price: formatPlanPrice(PLANS[style.id]),
+    features: planFeatures(style.id),
+  }))
+
   return (
     <div className="min-h-screen bg-[#F7F9FC] p-4 py-12">
       <div className="max-w-6xl mx-auto">
@@ -157,7 +145,7 @@ export default function PricingPage() {
           </p>
           {currentTier !== "free" && (
             <Badge className="mt-4" variant="secondary">
-              Current: {currentTier.charAt(0).toUpperCase() + currentTier.slice(1)}
+              Current: {PLANS[currentTier].name}
             </Badge>
           )}
         </div>
@@ -256,6 +244,10 @@ export default function PricingPage() {
                       ? "Current Plan"
                       : isProcessing
                       ? "Processing..."
+                      : currentTier !== "free"
+                      ? plan.id === "free"
+                        ? "Cancel in Settings"
+                        : "Switch in Settings"
                       : plan.id === "free"
                       ? "Current Free Plan"
                       : `Subscribe with ${selectedPayment === "stripe" ? "Stripe" : "PayPal"}`}
@@ -1,16 +1,16 @@
 "use client"
 import { useState } from 'react'
-import { useRouter } from 'next/navigation'
+import Link from 'next/link'
 import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 
 export default function RegisterPage() {
-  const router = useRouter()
   const [name, setName] = useState('')
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [registered, setRegistered] = useState(false)
 
   const onSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -22,13 +22,27 @@ export default function RegisterPage() {
       body: JSON.stringify({ name, email, password }),
     })
     setLoading(false)
-    if (res.ok) router.push('/(auth)/login')
+    if (res.ok) setRegistered(true)
     else {
       const data = await res.json().catch(() => ({}))
       setError(data?.error ?? 'Registration failed')
     }
   }
 
+  if (registered) {
+    return (
+      <div className="mx-auto max-w-sm py-24 space-y-4">
+        <h1 className="text-2xl font-semibold">Check your email</h1>
+        <p className="text-sm text-gray-600">
+          We sent a link to <strong>{email}</strong>. Open it to confirm your address, then log in.
+        </p>
+        <Link href="/login">
+          <Button className="w-full">Go to login</Button>
+        </Link>
+      </div>
+    )
+  }
+
   return (
     <div className="mx-auto max-w-sm py-24">
       <h1 className="text-2xl font-semibold mb-6">Create account</h1>
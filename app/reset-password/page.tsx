@@ -0,0 +1,66 @@
+"use client"
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+
+export default function ResetPasswordPage() {
+  const [token, setToken] = useState<string | null>(null)
+  const [password, setPassword] = useState('')
+  const [confirm, setConfirm] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [done, setDone] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setToken(new URLSearchParams(window.location.search).get('token'))
+  }, [])
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (password !== confirm) {
+      setError('Passwords do not match')
+      return
+    }
+    setLoading(true)
+    setError(null)
+    const res = await fetch('/api/password/reset', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token, password }),
+    })
+    setLoading(false)
+    if (res.ok) setDone(true)
+    else {
+      const data = await res.json().catch(() => ({}))
+      setError(data?.error ?? 'Password reset failed')
+    }
+  }
+
+  if (done) {
+    return (
+      <div className="mx-auto max-w-sm py-24 space-y-4">
+        <h1 className="text-2xl font-semibold">Password changed</h1>
+        <p className="text-sm text-gray-600">You have been signed out on all devices. Log in with your new password.</p>
+        <Link href="/login">
+          <Button className="w-full">Login</Button>
+        </Link>
+      </div>
+    )
+  }
+
+  return (
+    <div className="mx-auto max-w-sm py-24">
+      <h1 className="text-2xl font-semibold mb-6">Choose a new password</h1>
+      <form onSubmit={onSubmit} className="space-y-4">
+        <Input type="password" placeholder="New password (min 6)" value={password} onChange={e => setPassword(e.target.value)} minLength={6} required />
+        <Input type="password" placeholder="Confirm new password" value={confirm} onChange={e => setConfirm(e.target.value)} required />
+        {error && <p className="text-red-600 text-sm">{error}</p>}
+        {error && (
+          <Link href="/forgot-password" className="block text-sm text-center underline">Request a new link</Link>
+        )}
+        <Button type="submit" disabled={loading || !token} className="w-full">{loading ? 'Saving...' : 'Set password'}</Button>
+      </form>
+    </div>
+  )
+}
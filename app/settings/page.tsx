@@ -1,72 +1,195 @@
 "use client"
 
-import { useState } from "react"
+import { useCallback, useEffect, useState } from "react"
 import { useSession } from "next-auth/react"
 import { useRouter } from "next/navigation"
 import Link from "next/link"
+import { loadStripe } from "@stripe/stripe-js"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
-import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Separator } from "@/components/ui/separator"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { ArrowLeft, CreditCard, User, Crown } from "lucide-react"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import { ArrowLeft, CreditCard, User, Crown, Receipt, Shield } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
+import { useEntitlements } from "@/hooks/use-entitlements"
+import { TierBadge } from "@/components/tier-badge"
+import { PaymentMethods } from "@/components/payment-methods"
+import { BillingHistory } from "@/components/billing-history"
+import { TwoFactorSettings } from "@/components/two-factor-settings"
+import { DeviceSessions } from "@/components/device-sessions"
+import { AccountSettings } from "@/components/account-settings"
+import { AccountData } from "@/components/account-data"
+import { formatPlanPrice, planFeatures, PLANS, type Tier } from "@/lib/entitlements"
+
+interface SubscriptionState {
+  tier: Tier
+  paymentMethod: string | null
+  status: string | null
+  cancelAtPeriodEnd: boolean
+  currentPeriodEnd: string | null
+}
+
+interface ChangePreview {
+  tier: "pro" | "enterprise"
+  currency: string
+  amountDue: number
+  recurringAmount: number
+  nextBillingAt: string | null
+  requiresApproval: boolean
+}
+
+const publishableKey = process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY
+const stripePromise = publishableKey ? loadStripe(publishableKey) : null
+
+const formatAmount = (amount: number, currency: string) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: currency.toUpperCase() }).format(amount / 100)
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : "the end of the period")
 
 export default function SettingsPage() {
-  const { data: session } = useSession()
+  const { data: session, update } = useSession()
   const router = useRouter()
   const { toast } = useToast()
+  const { tier, hasTier } = useEntitlements()
+
+  const [tab, setTab] = useState("account")
+  const [subscription, setSubscription] = useState<SubscriptionState | null>(null)
+  const [preview, setPreview] = useState<ChangePreview | null>(null)
+  const [isChanging, setIsChanging] = useState(false)
+
+
+  const loadSubscription = useCallback(async () => {
+    const response = await fetch("/api/subscription")
+    if (response.ok) setSubscription(await response.json())
+  }, [])
+
+  useEffect(() => {
+    const requested = new URLSearchParams(window.location.search).get("tab")
+    if (requested) setTab(requested)
+  }, [])
 
-  const [cardNumber, setCardNumber] = useState("")
-  const [cardName, setCardName] = useState("")
-  const [expiryDate, setExpiryDate] = useState("")
-  const [cvv, setCvv] = useState("")
-  const [isLoading, setIsLoading] = useState(false)
+  useEffect(() => {
+    if (session) loadSubscription()
+  }, [session?.user?.email, tier, loadSubscription])
 
   if (!session) {
     router.push("/login")
     return null
   }
 
-  const handleSavePayment = async (e: React.FormEvent) => {
-    e.preventDefault()
-    setIsLoading(true)
+  const otherTier = tier === "enterprise" ? "pro" : "enterprise"
 
-    // Simulate API call
-    await new Promise((resolve) => setTimeout(resolve, 1500))
-
-    toast({
-      title: "Payment method saved",
-      description: "Your payment information has been securely stored.",
-    })
-
-    setIsLoading(false)
+  const handlePreviewChange = async () => {
+    setIsChanging(true)
+    try {
+      const response = await fetch("/api/subscription/change", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tier: otherTier, preview: true }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error)
+      setPreview(data.preview)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message ? error.message : "Failed to preview plan change",
+        variant: "destructive",
+      })
+    } finally {
+      setIsChanging(false)
+    }
   }
 
-  const formatCardNumber = (value: string) => {
-    const v = value.replace(/\s+/g, "").replace(/[^0-9]/gi, "")
-    const matches = v.match(/\d{4,16}/g)
-    const match = (matches && matches[0]) || ""
-    const parts = []
+  const handleChangePlan = async () => {
+    if (!preview) return
+    setIsChanging(true)
+    try {
+      const response = await fetch("/api/subscription/change", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tier: preview.tier }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error)
 
-    for (let i = 0, len = match.length; i < len; i += 4) {
-      parts.push(match.substring(i, i + 4))
-    }
+      if (data.approvalUrl) {
+        window.location.href = data.approvalUrl
+        return
+      }
+
+      // The bank wants the customer to confirm the upgrade charge (3D Secure);
+      // the Stripe webhook switches the plan once it is paid
+      if (data.paymentStatus === "requires_action") {
+        const stripe = await stripePromise
+        if (!stripe) throw new Error("Card payments are not available")
+        const { error } = await stripe.confirmCardPayment(data.clientSecret)
+        if (error) throw new Error(error.message)
+        toast({ title: "Payment confirmed", description: `You'll be on ${PLANS[preview.tier].name} in a moment.` })
+        setPreview(null)
+        return
+      }
 
-    if (parts.length) {
-      return parts.join(" ")
-    } else {
-      return value
+      // PayPal keeps the current plan until the first payment at the new price
+      toast(
+        data.tier === preview.tier
+          ? { title: "Plan changed", description: `You're now on ${PLANS[data.tier as Tier].name}.` }
+          : {
+              title: "Plan change scheduled",
+              description: `You'll move to ${PLANS[preview.tier].name} with your next payment.`,
+            }
+      )
+      setPreview(null)
+      await update()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message ? error.message : "Failed to change plan",
+        variant: "destructive",
+      })
+    } finally {
+      setIsChanging(false)
     }
   }
 
-  const formatExpiryDate = (value: string) => {
-    const v = value.replace(/\s+/g, "").replace(/[^0-9]/gi, "")
-    if (v.length >= 2) {
-      return v.slice(0, 2) + "/" + v.slice(2, 4)
+  const handleCancel = async () => {
+    setIsChanging(true)
+    try {
+      const response = await fetch("/api/subscription/cancel", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error)
+
+      setSubscription(data)
+      toast({
+        title: "Subscription canceled",
+        description: `You keep ${PLANS[tier].name} until ${formatDate(data.currentPeriodEnd)}.`,
+      })
+      await update()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message ? error.message : "Failed to cancel subscription",
+        variant: "destructive",
+      })
+    } finally {
+      setIsChanging(false)
     }
-    return v
   }
 
   return (
@@ -83,8 +206,8 @@ export default function SettingsPage() {
           <h1 className="text-2xl font-bold text-gray-800">Settings</h1>
         </div>
 
-        <Tabs defaultValue="account" className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+        <Tabs value={tab} onValueChange={setTab} className="w-full">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="account">
               <User className="h-4 w-4 mr-2" />
               Account
@@ -97,6 +220,14 @@ export default function SettingsPage() {
               <Crown className="h-4 w-4 mr-2" />
               Pro
             </TabsTrigger>
+            <TabsTrigger value="billing">
+              <Receipt className="h-4 w-4 mr-2" />
+              Billing
+            </TabsTrigger>
+            <TabsTrigger value="security">
+              <Shield className="h-4 w-4 mr-2" />
+              Security
+            </TabsTrigger>
           </TabsList>
 
           {/* Account Tab */}
@@ -105,36 +236,16 @@ export default function SettingsPage() {
               <CardHeader>
                 <CardTitle>Account Information</CardTitle>
                 <CardDescription>
-                  View and manage your account details
+                  Your profile, sign-in email and password
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
-                <div className="space-y-2">
-                  <Label>Name</Label>
-                  <Input value={(session.user as any)?.name || "N/A"} disabled />
-                </div>
-                <div className="space-y-2">
-                  <Label>Email</Label>
-                  <Input value={session.user?.email || ""} disabled />
-                </div>
+                <AccountSettings />
+                <Separator />
                 <div className="space-y-2">
                   <Label>Subscription Tier</Label>
                   <div className="flex items-center gap-2">
-                    {(session as any)?.user?.subscriptionTier === "enterprise" && (
-                      <span className="px-3 py-1 text-sm rounded-full bg-purple-100 text-purple-700 font-medium">
-                        Max Enterprise
-                      </span>
-                    )}
-                    {(session as any)?.user?.subscriptionTier === "pro" && (
-                      <span className="px-3 py-1 text-sm rounded-full bg-green-100 text-green-700 font-medium">
-                        Pro
-                      </span>
-                    )}
-                    {(session as any)?.user?.subscriptionTier === "free" && (
-                      <span className="px-3 py-1 text-sm rounded-full bg-gray-100 text-gray-700 font-medium">
-                        Free
-                      </span>
-                    )}
+                    <TierBadge tier={tier} />
                   </div>
                 </div>
                 {(session as any)?.user?.paymentMethod && (
@@ -149,6 +260,18 @@ export default function SettingsPage() {
                 )}
               </CardContent>
             </Card>
+
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle>Your Data</CardTitle>
+                <CardDescription>
+                  Take a copy of your data or delete your account
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <AccountData />
+              </CardContent>
+            </Card>
           </TabsContent>
 
           {/* Payment Tab */}
@@ -157,73 +280,25 @@ export default function SettingsPage() {
               <CardHeader>
                 <CardTitle>Payment Method</CardTitle>
                 <CardDescription>
-                  Add or update your payment information
+                  Manage the cards used for your subscription
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <form onSubmit={handleSavePayment} className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="cardNumber">Card Number</Label>
-                    <Input
-                      id="cardNumber"
-                      placeholder="1234 5678 9012 3456"
-                      value={cardNumber}
-                      onChange={(e) => setCardNumber(formatCardNumber(e.target.value))}
-                      maxLength={19}
-                      required
-                    />
-                  </div>
-
-                  <div className="space-y-2">
-                    <Label htmlFor="cardName">Cardholder Name</Label>
-                    <Input
-                      id="cardName"
-                      placeholder="John Doe"
-                      value={cardName}
-                      onChange={(e) => setCardName(e.target.value)}
-                      required
-                    />
-                  </div>
-
-                  <div className="grid grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="expiryDate">Expiry Date</Label>
-                      <Input
-                        id="expiryDate"
-                        placeholder="MM/YY"
-                        value={expiryDate}
-                        onChange={(e) => setExpiryDate(formatExpiryDate(e.target.value))}
-                        maxLength={5}
-                        required
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="cvv">CVV</Label>
-                      <Input
-                        id="cvv"
-                        placeholder="123"
-                        type="password"
-                        value={cvv}
-                        onChange={(e) => setCvv(e.target.value.replace(/\D/g, "").slice(0, 4))}
-                        maxLength={4}
-                        required
-                      />
-                    </div>
-                  </div>
-
-                  <Separator className="my-4" />
+                {subscription?.paymentMethod === "paypal" && (
+                  <p className="text-sm text-gray-600 mb-4">
+                    Your subscription is paid through PayPal. Manage that funding source in your PayPal account.
+                  </p>
+                )}
+                <PaymentMethods />
 
-                  <div className="bg-blue-50 p-4 rounded-lg">
-                    <p className="text-sm text-blue-800">
-                      🔒 Your payment information is encrypted and secure. We use industry-standard
-                      security measures to protect your data.
-                    </p>
-                  </div>
+                <Separator className="my-4" />
 
-                  <Button type="submit" className="w-full" disabled={isLoading}>
-                    {isLoading ? "Saving..." : "Save Payment Method"}
-                  </Button>
-                </form>
+                <div className="bg-blue-50 p-4 rounded-lg">
+                  <p className="text-sm text-blue-800">
+                    🔒 Card details are entered directly into Stripe&apos;s secure form and never reach our servers.
+                    We only keep a reference to the saved card.
+                  </p>
+                </div>
               </CardContent>
             </Card>
           </TabsContent>
@@ -238,47 +313,111 @@ export default function SettingsPage() {
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
-                {(session as any)?.user?.isPro ? (
-                  <div className="text-center py-8">
-                    <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-green-100 mb-4">
-                      <Crown className="h-8 w-8 text-green-600" />
+                {hasTier("pro") ? (
+                  <>
+                    <div className="text-center py-8">
+                      <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-green-100 mb-4">
+                        <Crown className="h-8 w-8 text-green-600" />
+                      </div>
+                      <h3 className="text-xl font-semibold mb-2">You&apos;re on {PLANS[tier].name}!</h3>
+                      <p className="text-gray-600 mb-4">
+                        Enjoy unlimited recommendations and exclusive features.
+                      </p>
+                      {subscription?.currentPeriodEnd && !subscription.cancelAtPeriodEnd && (
+                        <p className="text-sm text-gray-500">
+                          Renews on {formatDate(subscription.currentPeriodEnd)}
+                        </p>
+                      )}
                     </div>
-                    <h3 className="text-xl font-semibold mb-2">You're a Pro!</h3>
-                    <p className="text-gray-600 mb-4">
-                      Enjoy unlimited recommendations and exclusive features.
-                    </p>
-                  </div>
+
+                    {subscription?.cancelAtPeriodEnd ? (
+                      <div className="bg-amber-50 p-4 rounded-lg">
+                        <p className="text-sm text-amber-800">
+                          Your subscription is canceled. You keep {PLANS[tier].name} until{" "}
+                          {formatDate(subscription.currentPeriodEnd)}, then your account moves to the free plan.
+                        </p>
+                      </div>
+                    ) : (
+                      <>
+                        {preview ? (
+                          <div className="border rounded-lg p-4 space-y-2">
+                            <h4 className="font-semibold">Switch to {PLANS[preview.tier].name}</h4>
+                            {preview.amountDue > 0 && (
+                              <p className="text-sm text-gray-600">
+                                You&apos;ll be charged {formatAmount(preview.amountDue, preview.currency)} now for the
+                                rest of this billing period.
+                              </p>
+                            )}
+                            {preview.amountDue < 0 && (
+                              <p className="text-sm text-gray-600">
+                                {formatAmount(-preview.amountDue, preview.currency)} of unused time will be credited to
+                                your next invoice.
+                              </p>
+                            )}
+                            <p className="text-sm text-gray-600">
+                              From {formatDate(preview.nextBillingAt)} you&apos;ll pay{" "}
+                              {formatAmount(preview.recurringAmount, preview.currency)} per month.
+                            </p>
+                            {preview.requiresApproval && (
+                              <p className="text-sm text-gray-600">You&apos;ll be asked to approve the new price with PayPal.</p>
+                            )}
+                            <div className="flex gap-2 pt-2">
+                              <Button onClick={handleChangePlan} disabled={isChanging}>
+                                {isChanging ? "Processing..." : "Confirm"}
+                              </Button>
+                              <Button variant="outline" onClick={() => setPreview(null)} disabled={isChanging}>
+                                Back
+                              </Button>
+                            </div>
+                          </div>
+                        ) : (
+                          <Button variant="outline" className="w-full" onClick={handlePreviewChange} disabled={isChanging}>
+                            {otherTier === "enterprise" ? "Upgrade" : "Downgrade"} to {PLANS[otherTier].name}
+                          </Button>
+                        )}
+
+                        <Separator className="my-4" />
+
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" className="w-full text-red-600 hover:text-red-700" disabled={isChanging}>
+                              Cancel subscription
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Cancel your subscription?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                You won&apos;t be charged again. {PLANS[tier].name} features stay available until{" "}
+                                {formatDate(subscription?.currentPeriodEnd ?? null)}.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Keep subscription</AlertDialogCancel>
+                              <AlertDialogAction onClick={handleCancel}>Cancel subscription</AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </>
+                    )}
+                  </>
                 ) : (
                   <>
                     <div className="border-2 border-blue-200 rounded-lg p-6 bg-gradient-to-br from-blue-50 to-purple-50">
                       <div className="flex items-center justify-between mb-4">
-                        <h3 className="text-xl font-bold">Pro Plan</h3>
+                        <h3 className="text-xl font-bold">{PLANS.pro.name} Plan</h3>
                         <div className="text-right">
-                          <div className="text-3xl font-bold text-blue-600">$9.99</div>
+                          <div className="text-3xl font-bold text-blue-600">{formatPlanPrice(PLANS.pro)}</div>
                           <div className="text-sm text-gray-600">per month</div>
                         </div>
                       </div>
                       <ul className="space-y-2 mb-6">
-                        <li className="flex items-center text-sm">
-                          <span className="mr-2">✓</span>
-                          Unlimited recommendations
-                        </li>
-                        <li className="flex items-center text-sm">
-                          <span className="mr-2">✓</span>
-                          Advanced AI personalization
-                        </li>
-                        <li className="flex items-center text-sm">
-                          <span className="mr-2">✓</span>
-                          Save unlimited favorites
-                        </li>
-                        <li className="flex items-center text-sm">
-                          <span className="mr-2">✓</span>
-                          Priority support
-                        </li>
-                        <li className="flex items-center text-sm">
-                          <span className="mr-2">✓</span>
-                          Ad-free experience
-                        </li>
+                        {planFeatures("pro").map((feature) => (
+                          <li key={feature} className="flex items-center text-sm">
+                            <span className="mr-2">✓</span>
+                            {feature}
+                          </li>
+                        ))}
                       </ul>
                       <Link href="/pro">
                         <Button className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700">
@@ -291,6 +430,48 @@ export default function SettingsPage() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          {/* Billing Tab */}
+          <TabsContent value="billing" className="mt-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Billing History</CardTitle>
+                <CardDescription>
+                  Your charges and invoices
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <BillingHistory />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Security Tab */}
+          <TabsContent value="security" className="mt-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Two-Factor Authentication</CardTitle>
+                <CardDescription>
+                  A second step when you sign in with your password
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <TwoFactorSettings />
+              </CardContent>
+            </Card>
+
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle>Devices</CardTitle>
+                <CardDescription>
+                  Where you&apos;re signed in. Sign out anything you don&apos;t recognise.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <DeviceSessions />
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
       </div>
     </div>
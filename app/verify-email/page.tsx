@@ -0,0 +1,52 @@
+"use client"
+import { useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+
+export default function VerifyEmailPage() {
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying')
+  const [message, setMessage] = useState<string | null>(null)
+  const started = useRef(false)
+
+  useEffect(() => {
+    // Tokens are single-use, so guard against the effect running twice in dev
+    if (started.current) return
+    started.current = true
+
+    const token = new URLSearchParams(window.location.search).get('token')
+    if (!token) {
+      setStatus('failed')
+      setMessage('This link is missing its token.')
+      return
+    }
+
+    fetch('/api/verify-email', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token }),
+    })
+      .then(async (res) => {
+        const data = await res.json().catch(() => ({}))
+        setStatus(res.ok ? 'verified' : 'failed')
+        setMessage(res.ok ? `${data.email} is confirmed.` : data?.error ?? 'Verification failed')
+      })
+      .catch(() => {
+        setStatus('failed')
+        setMessage('Verification failed')
+      })
+  }, [])
+
+  return (
+    <div className="mx-auto max-w-sm py-24 space-y-6">
+      <h1 className="text-2xl font-semibold">
+        {status === 'verifying' ? 'Confirming your email...' : status === 'verified' ? 'Email confirmed' : 'Could not confirm email'}
+      </h1>
+      {message && <p className={status === 'failed' ? 'text-red-600 text-sm' : 'text-sm text-gray-600'}>{message}</p>}
+      {status !== 'verifying' && (
+        <Link href="/login">
+          <Button className="w-full">{status === 'verified' ? 'Login' : 'Back to login'}</Button>
+        </Link>
+      )}
+    </div>
+  )
+}
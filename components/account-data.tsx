@@ -0,0 +1,115 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { signOut } from "next-auth/react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Download } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+
+export function AccountData() {
+  const { toast } = useToast()
+  const [hasPassword, setHasPassword] = useState(true)
+  const [isOpen, setIsOpen] = useState(false)
+  const [password, setPassword] = useState("")
+  const [confirmation, setConfirmation] = useState("")
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  useEffect(() => {
+    fetch("/api/account")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => data && setHasPassword(data.hasPassword))
+  }, [])
+
+  const open = () => {
+    setPassword("")
+    setConfirmation("")
+    setIsOpen(true)
+  }
+
+  const handleDelete = async () => {
+    setIsDeleting(true)
+    try {
+      const response = await fetch("/api/account", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error)
+
+      toast({
+        title: "Account scheduled for deletion",
+        description: `Log in before ${new Date(data.deleteAfter).toLocaleDateString()} if you change your mind.`,
+      })
+      // The request ended every session, this one included
+      await signOut({ callbackUrl: "/" })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message ? error.message : "Failed to delete account",
+        variant: "destructive",
+      })
+      setIsDeleting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-gray-600">
+          Download your profile, recommendation history, favorites, feedback and invoices as a JSON file.
+        </p>
+        <Button variant="outline" size="sm" asChild>
+          <a href="/api/account/export" download>
+            <Download className="h-4 w-4 mr-2" />
+            Download
+          </a>
+        </Button>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-gray-600">
+          Cancel your subscription and delete your account. You have 30 days to change your mind by logging in.
+        </p>
+        <Button variant="outline" size="sm" className="text-red-600 hover:text-red-700" onClick={open}>
+          Delete account
+        </Button>
+      </div>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete your account?</DialogTitle>
+            <DialogDescription>
+              Any paid subscription ends now and you&apos;ll be signed out on all devices. After 30 days your history, favorites and profile are erased for good. Invoices are
+              kept for accounting without your name or email.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            {hasPassword && (
+              <Input
+                type="password"
+                placeholder="Current password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoFocus
+              />
+            )}
+            <Input placeholder='Type "DELETE" to confirm' value={confirmation} onChange={(e) => setConfirmation(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="destructive"
+              onClick={handleDelete}
+              disabled={isDeleting || confirmation !== "DELETE" || (hasPassword && !password)}
+            >
+              {isDeleting ? "Deleting..." : "Delete account"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,254 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { signOut, useSession } from "next-auth/react"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Upload } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+
+interface AccountState {
+  name: string | null
+  email: string
+  image: string | null
+  hasPassword: boolean
+  pendingEmail: string | null
+}
+
+type Step = "email" | "password" | null
+
+export function AccountSettings() {
+  const { update } = useSession()
+  const { toast } = useToast()
+  const [account, setAccount] = useState<AccountState | null>(null)
+  const [name, setName] = useState("")
+  const [step, setStep] = useState<Step>(null)
+  const [newEmail, setNewEmail] = useState("")
+  const [currentPassword, setCurrentPassword] = useState("")
+  const [newPassword, setNewPassword] = useState("")
+  const [isBusy, setIsBusy] = useState(false)
+
+  const loadAccount = useCallback(async () => {
+    const response = await fetch("/api/account")
+    if (response.ok) {
+      const data = await response.json()
+      setAccount(data)
+      setName(data.name ?? "")
+    }
+  }, [])
+
+  useEffect(() => {
+    loadAccount()
+  }, [loadAccount])
+
+  const open = (next: Step) => {
+    setNewEmail("")
+    setCurrentPassword("")
+    setNewPassword("")
+    setStep(next)
+  }
+
+  const send = async (url: string, init: RequestInit) => {
+    setIsBusy(true)
+    try {
+      const response = await fetch(url, init)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error)
+      return data
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message ? error.message : "Something went wrong",
+        variant: "destructive",
+      })
+      return null
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const sendJson = (url: string, method: string, body: object) =>
+    send(url, { method, headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) })
+
+  const saveProfile = async (changes: { name?: string; image?: string | null }) => {
+    const data = await sendJson("/api/account", "PATCH", changes)
+    if (data) {
+      setAccount(data)
+      setName(data.name ?? "")
+      toast({ title: "Profile updated" })
+      await update()
+    }
+  }
+
+  const handleAvatar = async (file: File) => {
+    const body = new FormData()
+    body.append("file", file)
+    const data = await send("/api/account/avatar", { method: "POST", body })
+    if (data) await saveProfile({ image: data.url })
+  }
+
+  const handleEmailChange = async () => {
+    const data = await sendJson("/api/account/email", "POST", { email: newEmail, password: currentPassword })
+    if (data) {
+      setStep(null)
+      setAccount((current) => current && { ...current, pendingEmail: data.pendingEmail })
+      toast({ title: "Check your inbox", description: `We sent a confirmation link to ${data.pendingEmail}.` })
+    }
+  }
+
+  const handlePasswordChange = async () => {
+    const data = await sendJson("/api/account/password", "POST", { currentPassword, newPassword })
+    if (data) {
+      setStep(null)
+      toast({ title: "Password changed", description: "Please log in again with your new password." })
+      // The change ended every session, this one included
+      await signOut({ callbackUrl: "/login" })
+    }
+  }
+
+  if (!account) {
+    return <p className="text-sm text-gray-500">Loading...</p>
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Avatar className="h-16 w-16">
+          {account.image && <AvatarImage src={account.image} alt="" />}
+          <AvatarFallback>{(account.name || account.email).charAt(0).toUpperCase()}</AvatarFallback>
+        </Avatar>
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" size="sm" disabled={isBusy} asChild>
+            <label className="cursor-pointer">
+              <Upload className="h-4 w-4 mr-2" />
+              Upload photo
+              <input
+                type="file"
+                accept="image/png,image/jpeg,image/webp,image/gif"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) handleAvatar(file)
+                  e.target.value = ""
+                }}
+              />
+            </label>
+          </Button>
+          {account.image && (
+            <Button variant="ghost" size="sm" onClick={() => saveProfile({ image: null })} disabled={isBusy}>
+              Remove
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="account-name">Name</Label>
+        <div className="flex gap-2">
+          <Input id="account-name" value={name} maxLength={100} onChange={(e) => setName(e.target.value)} />
+          <Button onClick={() => saveProfile({ name })} disabled={isBusy || name === (account.name ?? "")}>
+            Save
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Email</Label>
+        <div className="flex gap-2">
+          <Input value={account.email} disabled />
+          <Button variant="outline" onClick={() => open("email")}>
+            Change
+          </Button>
+        </div>
+        {account.pendingEmail && (
+          <p className="text-sm text-gray-600">
+            Waiting for you to confirm {account.pendingEmail}. Follow the link we sent there to finish the change.
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Password</Label>
+        <div>
+          <Button variant="outline" onClick={() => open("password")}>
+            {account.hasPassword ? "Change password" : "Set a password"}
+          </Button>
+        </div>
+      </div>
+
+      <Dialog open={step !== null} onOpenChange={(isOpen) => !isOpen && setStep(null)}>
+        <DialogContent>
+          {step === "email" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Change your email</DialogTitle>
+                <DialogDescription>
+                  We&apos;ll send a link to the new address. Your email changes once you follow it.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-3">
+                <Input
+                  type="email"
+                  placeholder="New email"
+                  value={newEmail}
+                  onChange={(e) => setNewEmail(e.target.value)}
+                  autoFocus
+                />
+                {account.hasPassword && (
+                  <Input
+                    type="password"
+                    placeholder="Current password"
+                    value={currentPassword}
+                    onChange={(e) => setCurrentPassword(e.target.value)}
+                  />
+                )}
+              </div>
+              <DialogFooter>
+                <Button onClick={handleEmailChange} disabled={isBusy || !newEmail || (account.hasPassword && !currentPassword)}>
+                  Send link
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+
+          {step === "password" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{account.hasPassword ? "Change your password" : "Set a password"}</DialogTitle>
+                <DialogDescription>You&apos;ll be signed out on all devices and asked to log in again.</DialogDescription>
+              </DialogHeader>
+              <div className="space-y-3">
+                {account.hasPassword && (
+                  <Input
+                    type="password"
+                    placeholder="Current password"
+                    value={currentPassword}
+                    onChange={(e) => setCurrentPassword(e.target.value)}
+                    autoFocus
+                  />
+                )}
+                <Input
+                  type="password"
+                  placeholder="New password (at least 6 characters)"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                />
+              </div>
+              <DialogFooter>
+                <Button
+                  onClick={handlePasswordChange}
+                  disabled={isBusy || newPassword.length < 6 || (account.hasPassword && !currentPassword)}
+                >
+                  {account.hasPassword ? "Change password" : "Set password"}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,98 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Download, FileText } from "lucide-react"
+
+interface InvoiceSummary {
+  id: string
+  number: string
+  status: "paid" | "failed" | "refunded"
+  description: string
+  currency: string
+  total: number
+  paidAt: string | null
+  createdAt: string
+}
+
+const statusStyles: Record<InvoiceSummary["status"], string> = {
+  paid: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-700",
+  refunded: "bg-gray-100 text-gray-700",
+}
+
+const statusLabels: Record<InvoiceSummary["status"], string> = {
+  paid: "Paid",
+  failed: "Failed",
+  refunded: "Refunded",
+}
+
+const formatAmount = (amount: number, currency: string) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: currency.toUpperCase() }).format(amount / 100)
+
+export function BillingHistory() {
+  const [invoices, setInvoices] = useState<InvoiceSummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    fetch("/api/billing/invoices")
+      .then((response) => (response.ok ? response.json() : { invoices: [] }))
+      .then((data) => setInvoices(data.invoices))
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading invoices...</p>
+  }
+
+  if (invoices.length === 0) {
+    return <p className="text-sm text-gray-500">No charges yet. Invoices appear here after each payment.</p>
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Date</TableHead>
+          <TableHead>Description</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead className="text-right">Amount</TableHead>
+          <TableHead />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {invoices.map((invoice) => (
+          <TableRow key={invoice.id}>
+            <TableCell className="whitespace-nowrap">
+              {new Date(invoice.paidAt ?? invoice.createdAt).toLocaleDateString()}
+            </TableCell>
+            <TableCell>
+              <div>{invoice.description}</div>
+              <div className="text-xs text-gray-500">{invoice.number}</div>
+            </TableCell>
+            <TableCell>
+              <Badge variant="secondary" className={statusStyles[invoice.status]}>
+                {statusLabels[invoice.status]}
+              </Badge>
+            </TableCell>
+            <TableCell className="text-right">{formatAmount(invoice.total, invoice.currency)}</TableCell>
+            <TableCell className="text-right whitespace-nowrap">
+              <a href={`/api/billing/invoices/${invoice.id}`} target="_blank" rel="noopener noreferrer">
+                <Button variant="ghost" size="sm" aria-label="View invoice">
+                  <FileText className="h-4 w-4" />
+                </Button>
+              </a>
+              <a href={`/api/billing/invoices/${invoice.id}?download=1`}>
+                <Button variant="ghost" size="sm" aria-label="Download invoice">
+                  <Download className="h-4 w-4" />
+                </Button>
+              </a>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
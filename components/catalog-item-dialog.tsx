@@ -0,0 +1,321 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Upload } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { CatalogItemSchema, type CatalogItemInput } from "@/lib/catalog-schema"
+
+export interface CatalogCategory {
+  id: string
+  title: string
+  icon: string | null
+}
+
+export interface CatalogItem {
+  id: string
+  categoryId: string
+  type: string | null
+  title: string
+  description: string | null
+  image: string | null
+  tags: string
+  price: number | null
+  currency: string | null
+  calories: number | null
+  duration: string | null
+  weather: string | null
+  archived: boolean
+}
+
+const toFormValues = (item: CatalogItem | null, categoryId: string): CatalogItemInput => ({
+  categoryId: item?.categoryId ?? categoryId,
+  title: item?.title ?? "",
+  type: item?.type ?? "",
+  description: item?.description ?? "",
+  image: item?.image ?? "",
+  tags: item?.tags ?? "",
+  price: item?.price != null ? String(item.price) : "",
+  currency: item?.currency ?? "",
+  calories: item?.calories != null ? String(item.calories) : "",
+  duration: item?.duration ?? "",
+  weather: item?.weather ?? "",
+})
+
+const textFields: { name: "type" | "duration" | "weather"; label: string; placeholder: string }[] = [
+  { name: "type", label: "Type", placeholder: "e.g. movie, shoes" },
+  { name: "duration", label: "Duration", placeholder: "e.g. 2-3小时" },
+  { name: "weather", label: "Weather", placeholder: "e.g. 晴朗 22°C" },
+]
+
+export function CatalogItemDialog({
+  open,
+  onOpenChange,
+  item,
+  categories,
+  defaultCategoryId,
+  onSaved,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  item: CatalogItem | null
+  categories: CatalogCategory[]
+  defaultCategoryId: string
+  onSaved: () => void
+}) {
+  const { toast } = useToast()
+  const [isUploading, setIsUploading] = useState(false)
+
+  const form = useForm<CatalogItemInput>({
+    resolver: zodResolver(CatalogItemSchema),
+    defaultValues: toFormValues(item, defaultCategoryId),
+  })
+
+  useEffect(() => {
+    if (open) form.reset(toFormValues(item, defaultCategoryId))
+  }, [open, item, defaultCategoryId, form])
+
+  const image = form.watch("image")
+
+  const handleUpload = async (file: File) => {
+    setIsUploading(true)
+    try {
+      const body = new FormData()
+      body.append("file", file)
+      const response = await fetch("/api/admin/uploads", { method: "POST", body })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error)
+      form.setValue("image", data.url, { shouldDirty: true, shouldValidate: true })
+    } catch (error) {
+      toast({
+        title: "Upload failed",
+        description: error instanceof Error && error.message ? error.message : "Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  const onSubmit = async (values: CatalogItemInput) => {
+    const response = await fetch(item ? `/api/admin/catalog/items/${item.id}` : "/api/admin/catalog/items", {
+      method: item ? "PUT" : "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(values),
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      // Surface server-side validation next to the matching field
+      for (const issue of data.issues ?? []) {
+        form.setError(issue.path[0] as keyof CatalogItemInput, { message: issue.message })
+      }
+      if (!data.issues) {
+        toast({ title: "Error", description: data.error || "Failed to save item", variant: "destructive" })
+      }
+      return
+    }
+
+    toast({ title: item ? "Item updated" : "Item created", description: data.item.title })
+    onOpenChange(false)
+    onSaved()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{item ? "Edit item" : "New item"}</DialogTitle>
+          <DialogDescription>Items appear in recommendations for their category unless archived.</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="categoryId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Choose a category" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {categories.map((category) => (
+                          <SelectItem key={category.id} value={category.id}>
+                            {category.icon} {category.title}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="title"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Title</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} {...field} value={field.value ?? ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="image"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Image</FormLabel>
+                  <div className="flex gap-2">
+                    <FormControl>
+                      <Input placeholder="https://… or upload" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <Button type="button" variant="outline" disabled={isUploading} asChild>
+                      <label className="cursor-pointer">
+                        <Upload className="h-4 w-4 mr-2" />
+                        {isUploading ? "Uploading..." : "Upload"}
+                        <input
+                          type="file"
+                          accept="image/png,image/jpeg,image/webp,image/gif"
+                          className="hidden"
+                          onChange={(e) => {
+                            const file = e.target.files?.[0]
+                            if (file) handleUpload(file)
+                            e.target.value = ""
+                          }}
+                        />
+                      </label>
+                    </Button>
+                  </div>
+                  {image && (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img src={image} alt="" className="h-20 w-20 rounded object-cover border" />
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="tags"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tags</FormLabel>
+                  <FormControl>
+                    <Input placeholder="科幻,小说,阅读" {...field} value={(field.value as string) ?? ""} />
+                  </FormControl>
+                  <FormDescription>Comma-separated. Used to match items to what people liked before.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="price"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Price</FormLabel>
+                    <FormControl>
+                      <Input inputMode="numeric" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormDescription>Minor units, 9900 = ¥99</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Currency</FormLabel>
+                    <FormControl>
+                      <Input placeholder="CNY" maxLength={3} {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="calories"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Calories</FormLabel>
+                    <FormControl>
+                      <Input inputMode="numeric" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              {textFields.map(({ name, label, placeholder }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <Input placeholder={placeholder} {...field} value={field.value ?? ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting || isUploading}>
+                {form.formState.isSubmitting ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
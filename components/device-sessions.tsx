@@ -0,0 +1,99 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { signOut } from "next-auth/react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Monitor, Smartphone } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+
+interface DeviceSession {
+  id: string
+  device: string
+  ip: string | null
+  lastSeenAt: string
+  current: boolean
+}
+
+const isMobile = (device: string) => /iOS|Android/.test(device)
+
+export function DeviceSessions() {
+  const { toast } = useToast()
+  const [sessions, setSessions] = useState<DeviceSession[] | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+
+  const loadSessions = useCallback(async () => {
+    const response = await fetch("/api/account/sessions")
+    if (response.ok) setSessions((await response.json()).sessions)
+  }, [])
+
+  useEffect(() => {
+    loadSessions()
+  }, [loadSessions])
+
+  const revoke = async (url: string, success: string) => {
+    setIsBusy(true)
+    try {
+      const response = await fetch(url, { method: "DELETE" })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error)
+      toast({ title: success })
+      loadSessions()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message ? error.message : "Something went wrong",
+        variant: "destructive",
+      })
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  if (!sessions) {
+    return <p className="text-sm text-gray-500">Loading...</p>
+  }
+
+  const others = sessions.filter((session) => !session.current)
+
+  return (
+    <div className="space-y-4">
+      <ul className="divide-y">
+        {sessions.map((session) => {
+          const Icon = isMobile(session.device) ? Smartphone : Monitor
+          return (
+            <li key={session.id} className="flex items-center gap-3 py-3">
+              <Icon className="h-5 w-5 text-gray-500 shrink-0" />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{session.device}</span>
+                  {session.current && <Badge variant="outline">This device</Badge>}
+                </div>
+                <p className="text-sm text-gray-500">
+                  {session.ip ?? "Unknown IP"} · {session.current ? "Active now" : `Last active ${new Date(session.lastSeenAt).toLocaleString()}`}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={isBusy}
+                onClick={() =>
+                  session.current
+                    ? signOut({ callbackUrl: "/login" })
+                    : revoke(`/api/account/sessions/${session.id}`, "Device signed out")
+                }
+              >
+                Sign out
+              </Button>
+            </li>
+          )
+        })}
+      </ul>
+      {others.length > 0 && (
+        <Button variant="outline" size="sm" disabled={isBusy} onClick={() => revoke("/api/account/sessions", "Other devices signed out")}>
+          Sign out all other devices
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,30 @@
+"use client"
+
+import { useRouter } from "next/navigation"
+import { useSession } from "next-auth/react"
+import { Button } from "@/components/ui/button"
+
+// Shown on every page while an admin is signed in as another user
+export function ImpersonationBanner() {
+  const router = useRouter()
+  const { data: session, update } = useSession()
+  const impersonatorEmail = (session?.user as any)?.impersonatorEmail as string | undefined
+
+  if (!impersonatorEmail) return null
+
+  const stop = async () => {
+    await update({ impersonate: null })
+    router.push("/admin/users")
+  }
+
+  return (
+    <div className="bg-amber-100 text-amber-900 text-sm px-4 py-2 flex items-center justify-center gap-4">
+      <span>
+        Signed in as <strong>{session?.user?.email}</strong> by {impersonatorEmail}
+      </span>
+      <Button size="sm" variant="outline" onClick={stop}>
+        Return to my account
+      </Button>
+    </div>
+  )
+}
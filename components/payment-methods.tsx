@@ -0,0 +1,194 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { loadStripe } from "@stripe/stripe-js"
+import { Elements, PaymentElement, useElements, useStripe } from "@stripe/react-stripe-js"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { CreditCard, Trash2 } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+
+interface SavedPaymentMethod {
+  id: string
+  brand: string
+  last4: string
+  expMonth: number
+  expYear: number
+  isDefault: boolean
+}
+
+const publishableKey = process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY
+const stripePromise = publishableKey ? loadStripe(publishableKey) : null
+
+// Card details are typed into Stripe's iframe and confirmed straight with Stripe
+function AddCardForm({ onDone, onCancel }: { onDone: () => void; onCancel: () => void }) {
+  const stripe = useStripe()
+  const elements = useElements()
+  const { toast } = useToast()
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!stripe || !elements) return
+
+    setIsSaving(true)
+    const { error } = await stripe.confirmSetup({
+      elements,
+      confirmParams: { return_url: `${window.location.origin}/settings?tab=payment` },
+      redirect: "if_required",
+    })
+    setIsSaving(false)
+
+    if (error) {
+      toast({ title: "Card not saved", description: error.message, variant: "destructive" })
+      return
+    }
+
+    toast({ title: "Card saved", description: "Your card has been added." })
+    onDone()
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <PaymentElement />
+      <div className="flex gap-2">
+        <Button type="submit" disabled={!stripe || isSaving}>
+          {isSaving ? "Saving..." : "Save Card"}
+        </Button>
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  )
+}
+
+export function PaymentMethods() {
+  const { toast } = useToast()
+  const [methods, setMethods] = useState<SavedPaymentMethod[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [clientSecret, setClientSecret] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const loadMethods = useCallback(async () => {
+    try {
+      const response = await fetch("/api/payment-methods")
+      if (response.ok) setMethods((await response.json()).paymentMethods)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadMethods()
+  }, [loadMethods])
+
+  const request = async (url: string, init: RequestInit, id?: string) => {
+    setBusyId(id ?? "new")
+    try {
+      const response = await fetch(url, init)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error)
+      return data
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message ? error.message : "Something went wrong",
+        variant: "destructive",
+      })
+      return null
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleAddCard = async () => {
+    const data = await request("/api/payment-methods/setup-intent", { method: "POST" })
+    if (data?.clientSecret) setClientSecret(data.clientSecret)
+  }
+
+  const handleMakeDefault = async (id: string) => {
+    if (await request(`/api/payment-methods/${id}/default`, { method: "POST" }, id)) loadMethods()
+  }
+
+  const handleRemove = async (id: string) => {
+    if (await request(`/api/payment-methods/${id}`, { method: "DELETE" }, id)) {
+      toast({ title: "Card removed" })
+      loadMethods()
+    }
+  }
+
+  if (!stripePromise) {
+    return (
+      <p className="text-sm text-gray-600">
+        Card payments are not configured. Set NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY to enable them.
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading payment methods...</p>
+      ) : methods.length === 0 ? (
+        <p className="text-sm text-gray-500">No saved cards yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {methods.map((method) => (
+            <li key={method.id} className="flex items-center justify-between p-3 border rounded-lg">
+              <div className="flex items-center gap-3">
+                <CreditCard className="h-5 w-5 text-gray-500" />
+                <div>
+                  <div className="font-medium capitalize">
+                    {method.brand} •••• {method.last4}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    Expires {String(method.expMonth).padStart(2, "0")}/{method.expYear}
+                  </div>
+                </div>
+                {method.isDefault && <Badge variant="secondary">Default</Badge>}
+              </div>
+              <div className="flex items-center gap-1">
+                {!method.isDefault && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleMakeDefault(method.id)}
+                    disabled={busyId !== null}
+                  >
+                    Make default
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRemove(method.id)}
+                  disabled={busyId !== null}
+                  aria-label="Remove card"
+                >
+                  <Trash2 className="h-4 w-4 text-red-600" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {clientSecret ? (
+        <Elements stripe={stripePromise} options={{ clientSecret }}>
+          <AddCardForm
+            onDone={() => {
+              setClientSecret(null)
+              loadMethods()
+            }}
+            onCancel={() => setClientSecret(null)}
+          />
+        </Elements>
+      ) : (
+        <Button onClick={handleAddCard} disabled={busyId !== null} className="w-full">
+          {busyId === "new" ? "Loading..." : "Add Card"}
+        </Button>
+      )}
+    </div>
+  )
+}
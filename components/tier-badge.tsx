@@ -0,0 +1,16 @@
+import { cn } from "@/lib/utils"
+import { PLANS, type Tier } from "@/lib/entitlements"
+
+const tierStyles: Record<Tier, string> = {
+  free: "bg-gray-100 text-gray-700",
+  pro: "bg-green-100 text-green-700",
+  enterprise: "bg-purple-100 text-purple-700",
+}
+
+export function TierBadge({ tier, className }: { tier: Tier; className?: string }) {
+  return (
+    <span className={cn("px-3 py-1 text-sm rounded-full font-medium", tierStyles[tier], className)}>
+      {PLANS[tier].name}
+    </span>
+  )
+}
@@ -0,0 +1,262 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+import { Download, ShieldCheck } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+
+interface TwoFactorStatus {
+  enabled: boolean
+  recoveryCodesRemaining: number
+  hasPassword: boolean
+}
+
+interface Enrollment {
+  secret: string
+  qrCode: string
+}
+
+type Step = "password" | "scan" | "confirm-disable" | "confirm-regenerate" | null
+
+function CodeInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange} autoFocus>
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  )
+}
+
+export function TwoFactorSettings() {
+  const { toast } = useToast()
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [step, setStep] = useState<Step>(null)
+  const [password, setPassword] = useState("")
+  const [code, setCode] = useState("")
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+
+  const loadStatus = useCallback(async () => {
+    const response = await fetch("/api/account/two-factor")
+    if (response.ok) setStatus(await response.json())
+  }, [])
+
+  useEffect(() => {
+    loadStatus()
+  }, [loadStatus])
+
+  const open = (next: Step) => {
+    setPassword("")
+    setCode("")
+    setStep(next)
+  }
+
+  const post = async (url: string, body: object) => {
+    setIsBusy(true)
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error)
+      return data
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message ? error.message : "Something went wrong",
+        variant: "destructive",
+      })
+      return null
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleStart = async () => {
+    const data = await post("/api/account/two-factor/setup", { password })
+    if (data) {
+      setEnrollment(data)
+      open("scan")
+    }
+  }
+
+  const handleEnable = async () => {
+    const data = await post("/api/account/two-factor/enable", { code })
+    if (data) {
+      setStep(null)
+      setEnrollment(null)
+      setRecoveryCodes(data.recoveryCodes)
+      loadStatus()
+    }
+  }
+
+  const handleDisable = async () => {
+    if (await post("/api/account/two-factor/disable", { code })) {
+      setStep(null)
+      toast({ title: "Two-factor authentication turned off" })
+      loadStatus()
+    }
+  }
+
+  const handleRegenerate = async () => {
+    const data = await post("/api/account/two-factor/recovery-codes", { code })
+    if (data) {
+      setStep(null)
+      setRecoveryCodes(data.recoveryCodes)
+      loadStatus()
+    }
+  }
+
+  const downloadCodes = () => {
+    if (!recoveryCodes) return
+    const blob = new Blob([`RandomLife recovery codes\n\n${recoveryCodes.join("\n")}\n`], { type: "text/plain" })
+    const link = document.createElement("a")
+    link.href = URL.createObjectURL(blob)
+    link.download = "randomlife-recovery-codes.txt"
+    link.click()
+    URL.revokeObjectURL(link.href)
+  }
+
+  if (!status) {
+    return <p className="text-sm text-gray-500">Loading...</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      {status.enabled ? (
+        <>
+          <div className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-green-600" />
+            <span className="font-medium">Two-factor authentication is on</span>
+            <Badge variant="outline">{status.recoveryCodesRemaining} recovery codes left</Badge>
+          </div>
+          <p className="text-sm text-gray-600">
+            Signing in with your password also asks for a code from your authenticator app.
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => open("confirm-regenerate")}>
+              New recovery codes
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => open("confirm-disable")}>
+              Turn off
+            </Button>
+          </div>
+        </>
+      ) : (
+        <>
+          <p className="text-sm text-gray-600">
+            Protect your account with a code from an authenticator app such as Google Authenticator or 1Password
+            whenever you sign in with your password.
+          </p>
+          <Button size="sm" onClick={() => (status.hasPassword ? open("password") : handleStart())} disabled={isBusy}>
+            Turn on two-factor authentication
+          </Button>
+        </>
+      )}
+
+      <Dialog open={step !== null} onOpenChange={(isOpen) => !isOpen && setStep(null)}>
+        <DialogContent>
+          {step === "password" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Confirm your password</DialogTitle>
+                <DialogDescription>Enter your password to start setting up two-factor authentication.</DialogDescription>
+              </DialogHeader>
+              <Input type="password" value={password} onChange={(e) => setPassword(e.target.value)} autoFocus />
+              <DialogFooter>
+                <Button onClick={handleStart} disabled={isBusy || !password}>
+                  Continue
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+
+          {step === "scan" && enrollment && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Scan the QR code</DialogTitle>
+                <DialogDescription>
+                  Scan it with your authenticator app, then enter the 6-digit code it shows.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="flex flex-col items-center gap-3">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img src={enrollment.qrCode} alt="QR code for your authenticator app" className="h-48 w-48" />
+                <div className="text-center">
+                  <Label className="text-xs text-gray-500">Or enter this key</Label>
+                  <p className="font-mono text-sm break-all select-all">{enrollment.secret}</p>
+                </div>
+                <CodeInput value={code} onChange={setCode} />
+              </div>
+              <DialogFooter>
+                <Button onClick={handleEnable} disabled={isBusy || code.length < 6}>
+                  Turn on
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+
+          {(step === "confirm-disable" || step === "confirm-regenerate") && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{step === "confirm-disable" ? "Turn off two-factor authentication" : "New recovery codes"}</DialogTitle>
+                <DialogDescription>
+                  Enter a code from your authenticator app or one of your recovery codes.
+                  {step === "confirm-regenerate" && " Your current recovery codes will stop working."}
+                </DialogDescription>
+              </DialogHeader>
+              <Input
+                placeholder="123456 or xxxxx-xxxxx"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                autoComplete="one-time-code"
+                autoFocus
+              />
+              <DialogFooter>
+                <Button
+                  variant={step === "confirm-disable" ? "destructive" : "default"}
+                  onClick={step === "confirm-disable" ? handleDisable : handleRegenerate}
+                  disabled={isBusy || !code}
+                >
+                  {step === "confirm-disable" ? "Turn off" : "Create new codes"}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={recoveryCodes !== null} onOpenChange={(isOpen) => !isOpen && setRecoveryCodes(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save your recovery codes</DialogTitle>
+            <DialogDescription>
+              Each code signs you in once if you lose your authenticator app. They are not shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="grid grid-cols-2 gap-2 font-mono text-sm bg-gray-100 rounded p-4 select-all">
+            {recoveryCodes?.map((recoveryCode) => <li key={recoveryCode}>{recoveryCode}</li>)}
+          </ul>
+          <DialogFooter>
+            <Button variant="outline" onClick={downloadCodes}>
+              <Download className="h-4 w-4 mr-2" />
+              Download
+            </Button>
+            <Button onClick={() => setRecoveryCodes(null)}>I saved them</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
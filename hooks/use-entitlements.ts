@@ -0,0 +1,17 @@
+"use client"
+
+import { useSession } from "next-auth/react"
+import { getEntitlements, hasTier, normalizeTier, PLANS, type Tier } from "@/lib/entitlements"
+
+export function useEntitlements() {
+  const { data: session, status } = useSession()
+  const tier = normalizeTier((session?.user as any)?.subscriptionTier)
+
+  return {
+    tier,
+    plan: PLANS[tier],
+    entitlements: getEntitlements(tier),
+    hasTier: (minimum: Tier) => hasTier(tier, minimum),
+    isLoading: status === "loading",
+  }
+}
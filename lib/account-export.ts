@@ -0,0 +1,79 @@
+import { prisma } from '@/lib/prisma'
+import { invoiceNumber } from '@/lib/billing/invoices'
+
+// Everything stored about a user, for data portability requests. Secrets
+// (password hash, 2FA secret, tokens) are left out; they are not personal data
+// the user could use elsewhere and would only weaken the account if leaked.
+export async function exportAccountData(userId: string) {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    include: {
+      accounts: { select: { provider: true, providerAccountId: true } },
+      recommendationEvents: {
+        orderBy: { createdAt: 'asc' },
+        include: { item: { select: { title: true } } },
+      },
+      feedback: {
+        orderBy: { createdAt: 'asc' },
+        include: { item: { select: { title: true } } },
+      },
+      invoices: { orderBy: { createdAt: 'asc' } },
+      userSessions: {
+        orderBy: { createdAt: 'asc' },
+        select: { userAgent: true, ip: true, createdAt: true, lastSeenAt: true, revokedAt: true },
+      },
+    },
+  })
+
+  return {
+    exportedAt: new Date().toISOString(),
+    profile: {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      emailVerified: user.emailVerified,
+      image: user.image,
+      createdAt: user.createdAt,
+      twoFactorEnabled: !!user.totpEnabledAt,
+      linkedAccounts: user.accounts,
+    },
+    subscription: {
+      tier: user.subscriptionTier,
+      paymentMethod: user.paymentMethod,
+      status: user.subscriptionStatus,
+      cancelAtPeriodEnd: user.cancelAtPeriodEnd,
+      currentPeriodEnd: user.currentPeriodEnd,
+    },
+    history: user.recommendationEvents.map((event) => ({
+      category: event.categoryId,
+      itemId: event.itemId,
+      title: event.item.title,
+      reason: event.reason,
+      recommendedAt: event.createdAt,
+    })),
+    favorites: user.feedback
+      .filter((entry) => entry.action === 'like')
+      .map((entry) => ({ category: entry.categoryId, itemId: entry.itemId, title: entry.item.title, savedAt: entry.updatedAt })),
+    feedback: user.feedback.map((entry) => ({
+      category: entry.categoryId,
+      itemId: entry.itemId,
+      title: entry.item.title,
+      action: entry.action,
+      updatedAt: entry.updatedAt,
+    })),
+    devices: user.userSessions,
+    invoices: user.invoices.map((invoice) => ({
+      number: invoiceNumber(invoice),
+      provider: invoice.provider,
+      status: invoice.status,
+      description: invoice.description,
+      currency: invoice.currency,
+      subtotal: invoice.subtotal,
+      tax: invoice.tax,
+      total: invoice.total,
+      periodStart: invoice.periodStart,
+      periodEnd: invoice.periodEnd,
+      paidAt: invoice.paidAt,
+    })),
+  }
+}
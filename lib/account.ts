@@ -0,0 +1,233 @@
+import bcrypt from 'bcryptjs'
+import { prisma } from '@/lib/prisma'
+import { sendMail } from '@/lib/mailer'
+import { recordAudit, type AuditActor } from '@/lib/audit'
+import { getStorage, isValidKey } from '@/lib/storage'
+import { isStripeDemoMode, stripe } from '@/lib/stripe'
+import { cancelSubscription } from '@/lib/billing/subscriptions'
+import { normalizeTier } from '@/lib/entitlements'
+import { generateToken, hashToken } from '@/lib/tokens'
+import { revokeUserSessions } from '@/lib/user-sessions'
+
+const EMAIL_CHANGE_TTL_MS = 24 * 60 * 60 * 1000
+const REQUEST_INTERVAL_MS = 60 * 1000
+export const DELETION_GRACE_DAYS = 30
+
+export class AccountError extends Error {
+  constructor(message: string, public status = 400, public code?: string) {
+    super(message)
+    this.name = 'AccountError'
+  }
+}
+
+async function findUser(userId: string) {
+  const user = await prisma.user.findUnique({ where: { id: userId } })
+  if (!user) throw new AccountError('User not found', 404)
+  return user
+}
+
+// Accounts without a password (OAuth only) have nothing to confirm with
+async function checkPassword(user: { password: string | null }, password: string | undefined) {
+  if (user.password && !(password && (await bcrypt.compare(password, user.password)))) {
+    throw new AccountError('Incorrect password', 400, 'INVALID_PASSWORD')
+  }
+}
+
+// Avatars are either uploaded through /api/account/avatar or come from an
+// OAuth provider, which always serves them over https
+export function isAllowedAvatar(url: string) {
+  if (url.startsWith('/api/uploads/')) return isValidKey(url.slice('/api/uploads/'.length))
+  try {
+    return new URL(url).protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+// Removes an uploaded avatar once no account shows it any more. Only avatars
+// are touched, and the URL is user-supplied, so another account may share it.
+async function deleteAvatarIfUnused(url: string | null) {
+  const key = url?.startsWith('/api/uploads/avatars/') ? url.slice('/api/uploads/'.length) : null
+  if (!key || !isValidKey(key)) return
+  if (await prisma.user.count({ where: { image: url } })) return
+
+  await getStorage()
+    .delete(key)
+    .catch((error) => console.error('Avatar deletion error:', error))
+}
+
+export async function getAccount(userId: string) {
+  const user = await findUser(userId)
+  const pending = await prisma.emailChangeToken.findFirst({
+    where: { userId, usedAt: null, expires: { gt: new Date() } },
+    orderBy: { createdAt: 'desc' },
+  })
+  return {
+    name: user.name,
+    email: user.email,
+    image: user.image,
+    hasPassword: !!user.password,
+    pendingEmail: pending?.newEmail ?? null,
+  }
+}
+
+export async function updateProfile(userId: string, data: { name?: string | null; image?: string | null }) {
+  if (data.image && !isAllowedAvatar(data.image)) throw new AccountError('Invalid avatar URL')
+  const user = await findUser(userId)
+  await prisma.user.update({ where: { id: userId }, data })
+  if (data.image !== undefined && data.image !== user.image) await deleteAvatarIfUnused(user.image)
+  return getAccount(userId)
+}
+
+// Bumps sessionVersion like a password reset, so every session, including the
+// one making the change, has to sign in again with the new password. Accounts
+// that only use OAuth can set a first password this way.
+export async function changePassword(userId: string, currentPassword: string | undefined, newPassword: string) {
+  const user = await findUser(userId)
+  await checkPassword(user, currentPassword)
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { password: await bcrypt.hash(newPassword, 10), sessionVersion: { increment: 1 } },
+  })
+  await revokeUserSessions(userId)
+
+  await sendMail({
+    to: user.email,
+    subject: 'Your RandomLife password was changed',
+    text: `The password for your RandomLife account was just changed and all devices were signed out.\n\nIf this was not you, reset your password from the login page right away.`,
+  })
+}
+
+// The address only changes once the link sent to it is followed; the current
+// address is told about the request in case someone else made it
+export async function requestEmailChange(userId: string, newEmail: string, password: string | undefined, baseUrl: string) {
+  const user = await findUser(userId)
+  await checkPassword(user, password)
+
+  if (newEmail === user.email) throw new AccountError('That is already your email address')
+  if (await prisma.user.findUnique({ where: { email: newEmail } })) {
+    throw new AccountError('An account with this email already exists', 409, 'EMAIL_TAKEN')
+  }
+
+  // At most one email a minute per account
+  const recent = await prisma.emailChangeToken.findFirst({
+    where: { userId, createdAt: { gt: new Date(Date.now() - REQUEST_INTERVAL_MS) } },
+  })
+  if (recent) throw new AccountError('Please wait a minute before trying again', 429)
+
+  const { token, hash } = generateToken()
+  await prisma.$transaction([
+    // Only the latest request can be confirmed
+    prisma.emailChangeToken.deleteMany({ where: { userId, usedAt: null } }),
+    prisma.emailChangeToken.create({
+      data: { userId, newEmail, tokenHash: hash, expires: new Date(Date.now() + EMAIL_CHANGE_TTL_MS) },
+    }),
+  ])
+
+  const link = `${baseUrl}/confirm-email?token=${token}`
+  await sendMail({
+    to: newEmail,
+    subject: 'Confirm your new RandomLife email address',
+    text: `Follow this link to use ${newEmail} for your RandomLife account:\n\n${link}\n\nThe link expires in 24 hours. Until then you keep signing in with ${user.email}. If you did not ask for this, ignore this email.`,
+  })
+  await sendMail({
+    to: user.email,
+    subject: 'Email change requested for your RandomLife account',
+    text: `Someone asked to change the email address of your RandomLife account to ${newEmail}. Nothing changes unless the link sent to that address is followed.\n\nIf this was not you, change your password in Settings.`,
+  })
+
+  return { pendingEmail: newEmail }
+}
+
+export async function confirmEmailChange(token: string) {
+  const record = await prisma.emailChangeToken.findUnique({ where: { tokenHash: hashToken(token) } })
+  if (!record || record.usedAt) throw new AccountError('This link is invalid or has already been used')
+  if (record.expires < new Date()) throw new AccountError('This link has expired. Request the change again in Settings.')
+
+  // Claim the token first so two submissions of the same link cannot both succeed
+  const claimed = await prisma.emailChangeToken.updateMany({
+    where: { id: record.id, usedAt: null },
+    data: { usedAt: new Date() },
+  })
+  if (claimed.count === 0) throw new AccountError('This link is invalid or has already been used')
+
+  // Someone may have registered the address since the request
+  if (await prisma.user.findUnique({ where: { email: record.newEmail } })) {
+    throw new AccountError('An account with this email already exists', 409, 'EMAIL_TAKEN')
+  }
+
+  return prisma.user.update({
+    where: { id: record.userId },
+    data: { email: record.newEmail, emailVerified: new Date() },
+  })
+}
+
+// Deleting an account first cancels any paid subscription straight away and
+// signs the account out everywhere. The data stays for DELETION_GRACE_DAYS, so
+// a mistaken or malicious request can be undone by signing in again, and is
+// then removed by purgeDeletedAccounts.
+export async function scheduleAccountDeletion(userId: string, password: string | undefined) {
+  const user = await findUser(userId)
+  await checkPassword(user, password)
+  if (user.role !== 'user') {
+    throw new AccountError('Staff accounts must be given the user role before they can be deleted', 409, 'STAFF_ACCOUNT')
+  }
+
+  if (user.subscriptionId && user.paymentMethod && normalizeTier(user.subscriptionTier) !== 'free') {
+    await cancelSubscription(userId, { immediately: true })
+  }
+
+  const deleteAfter = new Date(Date.now() + DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000)
+  await prisma.user.update({ where: { id: userId }, data: { deleteAfter, sessionVersion: { increment: 1 } } })
+  await revokeUserSessions(userId)
+  await recordAudit({ actor: { id: user.id, email: user.email }, action: 'user.deletion_requested', targetId: user.id })
+
+  await sendMail({
+    to: user.email,
+    subject: 'Your RandomLife account will be deleted',
+    text: `Your RandomLife account and its data will be deleted on ${deleteAfter.toUTCString()}. Any subscription has been canceled.\n\nChanged your mind? Log in before then and the deletion is called off.`,
+  }).catch((error) => console.error('Deletion email error:', error))
+
+  return { deleteAfter }
+}
+
+// Called on every sign-in; returns whether a pending deletion was called off
+export async function cancelAccountDeletion(userId: string, actor: AuditActor) {
+  const { count } = await prisma.user.updateMany({
+    where: { id: userId, deleteAfter: { not: null } },
+    data: { deleteAfter: null },
+  })
+  if (count > 0) await recordAudit({ actor, action: 'user.deletion_canceled', targetId: userId })
+  return count > 0
+}
+
+// Removes accounts whose grace period is over, including an uploaded avatar.
+// Invoices are kept for accounting but no longer point at anyone; the audit
+// trail keeps only the id.
+export async function purgeDeletedAccounts(now = new Date()) {
+  const users = await prisma.user.findMany({ where: { deleteAfter: { lte: now } } })
+
+  for (const user of users) {
+    if (user.stripeCustomerId && !isStripeDemoMode()) {
+      // Also removes the saved cards. Failing here must not keep the data around.
+      await stripe.customers.del(user.stripeCustomerId).catch((error) => {
+        console.error('Stripe customer deletion error:', error)
+      })
+    }
+
+    await prisma.$transaction([
+      prisma.invoice.updateMany({ where: { userId: user.id }, data: { userId: null } }),
+      prisma.dailyUsage.deleteMany({ where: { subjectKey: `user:${user.id}` } }),
+      prisma.loginThrottle.deleteMany({ where: { key: `email:${user.email.toLowerCase()}` } }),
+      prisma.verificationToken.deleteMany({ where: { identifier: user.email } }),
+      prisma.auditLog.updateMany({ where: { actorId: user.id }, data: { actorEmail: null } }),
+      // Cascades to history, feedback, linked accounts, tokens and recovery codes
+      prisma.user.delete({ where: { id: user.id } }),
+    ])
+    await deleteAvatarIfUnused(user.image)
+    await recordAudit({ actor: {}, action: 'user.purged', targetId: user.id })
+  }
+
+  return users.length
+}
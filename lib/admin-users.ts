@@ -0,0 +1,182 @@
+import { randomBytes } from 'crypto'
+import bcrypt from 'bcryptjs'
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { recordAudit, type AuditActor } from '@/lib/audit'
+import { hasRole, outranks } from '@/lib/roles'
+import { revokeUserSessions } from '@/lib/user-sessions'
+
+export class AdminUserError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message)
+    this.name = 'AdminUserError'
+  }
+}
+
+export const USERS_PAGE_SIZE = 20
+
+// Never send password hashes to the console
+const userSummary = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  subscriptionTier: true,
+  paymentMethod: true,
+  subscriptionStatus: true,
+  disabledAt: true,
+  createdAt: true,
+} satisfies Prisma.UserSelect
+
+export async function searchUsers(options: { query?: string; page?: number }) {
+  const where: Prisma.UserWhereInput = options.query ? { email: { contains: options.query } } : {}
+  const total = await prisma.user.count({ where })
+  const pageCount = Math.max(1, Math.ceil(total / USERS_PAGE_SIZE))
+  const page = Math.min(Math.max(1, options.page ?? 1), pageCount)
+
+  const users = await prisma.user.findMany({
+    where,
+    select: userSummary,
+    orderBy: { createdAt: 'desc' },
+    skip: (page - 1) * USERS_PAGE_SIZE,
+    take: USERS_PAGE_SIZE,
+  })
+
+  return { users, total, page, pageCount }
+}
+
+export async function getUserDetail(id: string) {
+  const user = await prisma.user.findUnique({
+    where: { id },
+    select: {
+      ...userSummary,
+      emailVerified: true,
+      totpEnabledAt: true,
+      subscriptionId: true,
+      stripeCustomerId: true,
+      cancelAtPeriodEnd: true,
+      currentPeriodEnd: true,
+      deleteAfter: true,
+    },
+  })
+  if (!user) throw new AdminUserError('User not found', 404)
+
+  const [recommendations, audit] = await Promise.all([
+    prisma.recommendationEvent.findMany({
+      where: { userId: id },
+      include: { item: { select: { title: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+    }),
+    prisma.auditLog.findMany({
+      where: { targetId: id },
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+    }),
+  ])
+
+  return {
+    user,
+    recommendations: recommendations.map((event) => ({
+      id: event.id,
+      categoryId: event.categoryId,
+      title: event.item.title,
+      createdAt: event.createdAt,
+    })),
+    audit,
+  }
+}
+
+async function findUser(id: string) {
+  const user = await prisma.user.findUnique({ where: { id } })
+  if (!user) throw new AdminUserError('User not found', 404)
+  return user
+}
+
+// The actor's role is read from the database rather than the session, like
+// startImpersonation does
+async function assertOutranks(actorId: string | null | undefined, target: { role: string }) {
+  const actor = actorId ? await prisma.user.findUnique({ where: { id: actorId } }) : null
+  if (!actor || !outranks(actor.role, target.role)) {
+    throw new AdminUserError('You cannot do this to an account with your role or higher', 403)
+  }
+}
+
+// Sets a random temporary password and returns it once so support can pass
+// it on; it is not stored anywhere in plain text. Existing sessions end.
+export async function resetUserPassword(id: string, actor: AuditActor, reason: string) {
+  const user = await findUser(id)
+  await assertOutranks(actor.id, user)
+  const temporaryPassword = randomBytes(9).toString('base64url')
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { password: await bcrypt.hash(temporaryPassword, 10), sessionVersion: { increment: 1 } },
+  })
+  await revokeUserSessions(user.id)
+  await recordAudit({ actor, action: 'user.password_reset', targetId: user.id, reason })
+
+  return { temporaryPassword }
+}
+
+// For users who lost both their authenticator and their recovery codes
+export async function resetUserTwoFactor(id: string, actor: AuditActor, reason: string) {
+  const user = await findUser(id)
+  await assertOutranks(actor.id, user)
+  if (!user.totpEnabledAt) throw new AdminUserError('Two-factor authentication is not on for this user')
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: user.id },
+      data: { totpSecret: null, totpEnabledAt: null, totpLastStep: null },
+    }),
+    prisma.recoveryCode.deleteMany({ where: { userId: user.id } }),
+  ])
+  await recordAudit({ actor, action: 'user.two_factor_reset', targetId: user.id, reason })
+}
+
+export async function setUserDisabled(id: string, disabled: boolean, actor: AuditActor, reason: string) {
+  const user = await findUser(id)
+  if (user.id === actor.id) throw new AdminUserError('You cannot disable your own account')
+  await assertOutranks(actor.id, user)
+
+  const updated = await prisma.user.update({
+    where: { id: user.id },
+    data: { disabledAt: disabled ? user.disabledAt ?? new Date() : null },
+  })
+  // Otherwise tokens from before would work again once the account is enabled
+  if (disabled) await revokeUserSessions(user.id)
+  await recordAudit({ actor, action: disabled ? 'user.disable' : 'user.enable', targetId: user.id, reason })
+
+  return updated
+}
+
+// Called from the jwt callback when an admin asks to sign in as someone else.
+// The admin's role is checked against the database, not the token, because
+// the request comes from the browser.
+export async function startImpersonation(actorId: string, targetId: string) {
+  const actor = await findUser(actorId)
+  if (!hasRole(actor.role, 'admin') || actor.disabledAt) throw new AdminUserError('Forbidden', 403)
+
+  const target = await findUser(targetId)
+  if (target.id === actor.id) throw new AdminUserError('You are already signed in as this user')
+  if (!outranks(actor.role, target.role)) throw new AdminUserError('Staff accounts cannot be impersonated', 403)
+  if (target.disabledAt) throw new AdminUserError('Disabled users cannot be impersonated')
+
+  await recordAudit({
+    actor: { id: actor.id, email: actor.email },
+    action: 'user.impersonate_start',
+    targetId: target.id,
+  })
+  return target
+}
+
+export async function stopImpersonation(actorId: string, targetId: string) {
+  const actor = await findUser(actorId)
+  await recordAudit({
+    actor: { id: actor.id, email: actor.email },
+    action: 'user.impersonate_end',
+    targetId,
+  })
+  return actor
+}
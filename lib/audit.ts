@@ -0,0 +1,25 @@
+import { prisma } from '@/lib/prisma'
+
+export interface AuditActor {
+  id?: string | null
+  email?: string | null
+}
+
+export async function recordAudit(entry: {
+  actor: AuditActor
+  action: string
+  targetId?: string | null
+  reason?: string | null
+  details?: Record<string, unknown>
+}) {
+  return prisma.auditLog.create({
+    data: {
+      actorId: entry.actor.id ?? null,
+      actorEmail: entry.actor.email ?? null,
+      action: entry.action,
+      targetId: entry.targetId ?? null,
+      reason: entry.reason ?? null,
+      details: entry.details ? JSON.stringify(entry.details) : null,
+    },
+  })
+}
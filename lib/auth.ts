@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import { getServerSession, type Session } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { hasRole, normalizeRole, type Role } from '@/lib/roles'
+
+type RoleCheck =
+  | { ok: true; session: Session; userId: string; role: Role }
+  | { ok: false; response: NextResponse }
+
+// Guard for route handlers:
+//
+//   const auth = await requireRole('admin')
+//   if (!auth.ok) return auth.response
+//
+// The role comes from the session, which the jwt callback re-reads from the
+// database, so demotions take effect on the next request.
+export async function requireRole(minimum: Role): Promise<RoleCheck> {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.email) {
+    return { ok: false, response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const role = normalizeRole((session.user as any).role)
+  if (!hasRole(role, minimum)) {
+    return { ok: false, response: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+  }
+
+  return { ok: true, session, userId: (session.user as any).id, role }
+}
@@ -0,0 +1,102 @@
+import type { Invoice } from '@prisma/client'
+import { formatMoney, invoiceNumber } from '@/lib/billing/invoices'
+
+// Seller details printed on every invoice. Override per deployment.
+export const COMPANY = {
+  name: process.env.COMPANY_NAME || 'RandomLife Inc.',
+  address: (process.env.COMPANY_ADDRESS || '548 Market St|San Francisco, CA 94104|USA').split('|'),
+  email: process.env.COMPANY_BILLING_EMAIL || 'billing@randomlife.app',
+  taxId: process.env.COMPANY_TAX_ID || null,
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  paid: 'Paid',
+  failed: 'Payment failed',
+  refunded: 'Refunded',
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function formatDate(date: Date | null) {
+  return date ? date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }) : ''
+}
+
+// A self-contained printable page; browsers save it as PDF from the print dialog
+export function renderInvoiceHtml(invoice: Invoice, customer: { name: string | null; email: string }) {
+  const number = escapeHtml(invoiceNumber(invoice))
+  const money = (amount: number) => escapeHtml(formatMoney(amount, invoice.currency))
+  const period =
+    invoice.periodStart && invoice.periodEnd
+      ? `${formatDate(invoice.periodStart)} – ${formatDate(invoice.periodEnd)}`
+      : ''
+  const taxRate = invoice.subtotal > 0 && invoice.tax > 0 ? ` (${((invoice.tax / invoice.subtotal) * 100).toFixed(1)}%)` : ''
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Invoice ${number}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; color: #1f2937; max-width: 720px; margin: 40px auto; padding: 0 24px; }
+  header { display: flex; justify-content: space-between; margin-bottom: 40px; }
+  h1 { font-size: 28px; margin: 0 0 8px; }
+  .muted { color: #6b7280; font-size: 14px; line-height: 1.5; }
+  .status { display: inline-block; padding: 2px 10px; border-radius: 999px; font-size: 12px; background: #f3f4f6; }
+  .status.paid { background: #dcfce7; color: #166534; }
+  .status.failed { background: #fee2e2; color: #991b1b; }
+  table { width: 100%; border-collapse: collapse; margin-top: 32px; }
+  th, td { padding: 10px 0; text-align: left; border-bottom: 1px solid #e5e7eb; }
+  td.amount, th.amount { text-align: right; }
+  tfoot td { border-bottom: none; }
+  tfoot tr:last-child td { font-weight: 600; font-size: 18px; border-top: 2px solid #1f2937; }
+  @media print { body { margin: 0; } .no-print { display: none; } }
+</style>
+</head>
+<body>
+<header>
+  <div>
+    <h1>Invoice</h1>
+    <div class="muted">No. ${number}<br>Issued ${formatDate(invoice.paidAt ?? invoice.createdAt)}</div>
+    <p><span class="status ${escapeHtml(invoice.status)}">${escapeHtml(STATUS_LABELS[invoice.status] ?? invoice.status)}</span></p>
+  </div>
+  <div class="muted" style="text-align: right">
+    <strong>${escapeHtml(COMPANY.name)}</strong><br>
+    ${COMPANY.address.map(escapeHtml).join('<br>')}<br>
+    ${escapeHtml(COMPANY.email)}${COMPANY.taxId ? `<br>Tax ID: ${escapeHtml(COMPANY.taxId)}` : ''}
+  </div>
+</header>
+
+<div class="muted">
+  <strong>Billed to</strong><br>
+  ${customer.name ? `${escapeHtml(customer.name)}<br>` : ''}${escapeHtml(customer.email)}
+</div>
+
+<table>
+  <thead>
+    <tr><th>Description</th><th class="amount">Amount</th></tr>
+  </thead>
+  <tbody>
+    <tr>
+      <td>${escapeHtml(invoice.description)}${period ? `<div class="muted">${escapeHtml(period)}</div>` : ''}</td>
+      <td class="amount">${money(invoice.subtotal)}</td>
+    </tr>
+  </tbody>
+  <tfoot>
+    <tr><td>Subtotal</td><td class="amount">${money(invoice.subtotal)}</td></tr>
+    <tr><td>Tax${taxRate}</td><td class="amount">${money(invoice.tax)}</td></tr>
+    <tr><td>Total</td><td class="amount">${money(invoice.total)}</td></tr>
+  </tfoot>
+</table>
+
+<p class="muted">Paid via ${invoice.provider === 'paypal' ? 'PayPal' : 'card (Stripe)'}. Questions? Contact ${escapeHtml(COMPANY.email)}.</p>
+<p class="no-print"><button onclick="window.print()">Print or save as PDF</button></p>
+</body>
+</html>`
+}
@@ -0,0 +1,70 @@
+import { prisma } from '@/lib/prisma'
+import { PLANS, isTier } from '@/lib/entitlements'
+
+export type InvoiceStatus = 'paid' | 'failed' | 'refunded'
+
+export interface InvoiceInput {
+  userId: string
+  provider: 'stripe' | 'paypal'
+  providerId: string
+  number?: string | null
+  status: InvoiceStatus
+  tier?: string | null
+  description?: string | null
+  currency: string
+  subtotal: number
+  tax?: number
+  total: number
+  periodStart?: Date | null
+  periodEnd?: Date | null
+  paidAt?: Date | null
+}
+
+export function planDescription(tier: string | null | undefined) {
+  return isTier(tier) ? `${PLANS[tier].name} plan, monthly subscription` : 'Subscription'
+}
+
+// "9.99" -> 999
+export function toMinorUnits(value: string | number | null | undefined) {
+  return Math.round(Number(value ?? 0) * 100)
+}
+
+export function formatMoney(amount: number, currency: string) {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: currency.toUpperCase() }).format(amount / 100)
+}
+
+// PayPal sales have no invoice number of their own
+export function invoiceNumber(invoice: { id: string; number: string | null }) {
+  return invoice.number ?? `RL-${invoice.id.slice(-8).toUpperCase()}`
+}
+
+// Providers resend and update the same charge, so invoices are keyed by provider id
+export async function recordInvoice(input: InvoiceInput) {
+  const data = {
+    ...input,
+    currency: input.currency.toLowerCase(),
+    description: input.description || planDescription(input.tier),
+  }
+
+  return prisma.invoice.upsert({
+    where: { provider_providerId: { provider: input.provider, providerId: input.providerId } },
+    create: data,
+    update: data,
+  })
+}
+
+export async function markInvoiceRefunded(provider: 'stripe' | 'paypal', providerId: string) {
+  await prisma.invoice.updateMany({ where: { provider, providerId }, data: { status: 'refunded' } })
+}
+
+export async function listInvoices(userId: string) {
+  return prisma.invoice.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+    take: 100,
+  })
+}
+
+export async function getInvoice(userId: string, id: string) {
+  return prisma.invoice.findFirst({ where: { id, userId } })
+}
@@ -0,0 +1,133 @@
+import type Stripe from 'stripe'
+import type { User } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getOrCreateStripeCustomer, isStripeDemoMode, stripe } from '@/lib/stripe'
+
+// Cards are collected by Stripe Elements in the browser and confirmed against a
+// SetupIntent, so card numbers never reach this server. We only ever see the
+// PaymentMethod id and its display details.
+
+export class PaymentMethodError extends Error {
+  constructor(message: string, public status = 400, public code?: string) {
+    super(message)
+    this.name = 'PaymentMethodError'
+  }
+}
+
+export interface SavedPaymentMethod {
+  id: string
+  brand: string
+  last4: string
+  expMonth: number
+  expYear: number
+  isDefault: boolean
+}
+
+function assertStripeEnabled() {
+  if (isStripeDemoMode()) {
+    throw new PaymentMethodError('Saving cards is not available in demo mode', 503, 'DEMO_MODE')
+  }
+}
+
+async function loadUser(userId: string) {
+  const user = await prisma.user.findUnique({ where: { id: userId } })
+  if (!user) throw new PaymentMethodError('User not found', 404)
+  return user
+}
+
+async function defaultPaymentMethodId(customerId: string) {
+  const customer = await stripe.customers.retrieve(customerId)
+  if (customer.deleted) return null
+  const value = customer.invoice_settings.default_payment_method
+  return typeof value === 'string' ? value : value?.id ?? null
+}
+
+// Loads a payment method and makes sure it is attached to this user's customer
+async function ownedPaymentMethod(user: User, paymentMethodId: string) {
+  if (!user.stripeCustomerId) throw new PaymentMethodError('Payment method not found', 404)
+
+  let paymentMethod: Stripe.PaymentMethod
+  try {
+    paymentMethod = await stripe.paymentMethods.retrieve(paymentMethodId)
+  } catch {
+    throw new PaymentMethodError('Payment method not found', 404)
+  }
+
+  const customerId = typeof paymentMethod.customer === 'string' ? paymentMethod.customer : paymentMethod.customer?.id
+  if (customerId !== user.stripeCustomerId) throw new PaymentMethodError('Payment method not found', 404)
+  return paymentMethod
+}
+
+export async function listPaymentMethods(userId: string): Promise<SavedPaymentMethod[]> {
+  if (isStripeDemoMode()) return []
+
+  const user = await loadUser(userId)
+  if (!user.stripeCustomerId) return []
+
+  const [methods, defaultId] = await Promise.all([
+    stripe.customers.listPaymentMethods(user.stripeCustomerId, { type: 'card', limit: 20 }),
+    defaultPaymentMethodId(user.stripeCustomerId),
+  ])
+
+  return methods.data.map((method) => ({
+    id: method.id,
+    brand: method.card?.brand ?? 'card',
+    last4: method.card?.last4 ?? '',
+    expMonth: method.card?.exp_month ?? 0,
+    expYear: method.card?.exp_year ?? 0,
+    isDefault: method.id === defaultId,
+  }))
+}
+
+// The browser confirms this SetupIntent with Stripe.js to attach a new card
+export async function createSetupIntent(userId: string) {
+  assertStripeEnabled()
+
+  const customerId = await getOrCreateStripeCustomer(await loadUser(userId))
+  const setupIntent = await stripe.setupIntents.create({
+    customer: customerId,
+    usage: 'off_session',
+    payment_method_types: ['card'],
+    metadata: { userId },
+  })
+  return { clientSecret: setupIntent.client_secret }
+}
+
+export async function setDefaultPaymentMethod(userId: string, paymentMethodId: string) {
+  assertStripeEnabled()
+
+  const user = await loadUser(userId)
+  await ownedPaymentMethod(user, paymentMethodId)
+
+  await stripe.customers.update(user.stripeCustomerId!, {
+    invoice_settings: { default_payment_method: paymentMethodId },
+  })
+  // A subscription-level default would override the customer's, so keep them in line
+  if (user.paymentMethod === 'stripe' && user.subscriptionId) {
+    await stripe.subscriptions.update(user.subscriptionId, { default_payment_method: paymentMethodId })
+  }
+}
+
+export async function removePaymentMethod(userId: string, paymentMethodId: string) {
+  assertStripeEnabled()
+
+  const user = await loadUser(userId)
+  await ownedPaymentMethod(user, paymentMethodId)
+
+  const hasActiveSubscription = user.paymentMethod === 'stripe' && user.subscriptionId && !user.cancelAtPeriodEnd
+  if (hasActiveSubscription && (await defaultPaymentMethodId(user.stripeCustomerId!)) === paymentMethodId) {
+    throw new PaymentMethodError(
+      'This card pays for your subscription. Make another card the default first.',
+      409,
+      'DEFAULT_IN_USE'
+    )
+  }
+
+  await stripe.paymentMethods.detach(paymentMethodId)
+}
+
+// The first card a customer saves becomes their default
+export async function adoptFirstPaymentMethod(customerId: string, paymentMethodId: string) {
+  if (await defaultPaymentMethodId(customerId)) return
+  await stripe.customers.update(customerId, { invoice_settings: { default_payment_method: paymentMethodId } })
+}
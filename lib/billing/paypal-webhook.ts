@@ -0,0 +1,158 @@
+import { prisma } from '@/lib/prisma'
+import { decodeCustomId, getSubscription, tierForPlanId, type PayPalSubscription } from '@/lib/paypal'
+import { isTier, normalizeTier } from '@/lib/entitlements'
+import { markInvoiceRefunded, recordInvoice, toMinorUnits } from '@/lib/billing/invoices'
+
+export interface PayPalWebhookEvent {
+  id: string
+  event_type: string
+  resource: any
+}
+
+async function findUserForSubscription(subscription: PayPalSubscription) {
+  const byId = await prisma.user.findFirst({ where: { subscriptionId: subscription.id, paymentMethod: 'paypal' } })
+  if (byId) return byId
+
+  const { userId } = decodeCustomId(subscription.custom_id)
+  return userId ? prisma.user.findUnique({ where: { id: userId } }) : null
+}
+
+// Grants the subscribed tier. Shared by the approval return handler and the
+// ACTIVATED webhook, whichever arrives first. A revised plan is billed from the
+// next cycle, so a subscription the user already pays for keeps its tier until
+// handleSaleCompleted sees the first payment at the new price (planPaid).
+export async function activatePayPalSubscription(subscription: PayPalSubscription, { planPaid = false } = {}) {
+  const user = await findUserForSubscription(subscription)
+  if (!user) {
+    console.warn(`PayPal subscription ${subscription.id} does not belong to a known user`)
+    return null
+  }
+
+  const tier = tierForPlanId(subscription.plan_id) ?? decodeCustomId(subscription.custom_id).tier
+  if (!isTier(tier)) {
+    console.warn(`PayPal subscription ${subscription.id} has unknown plan ${subscription.plan_id}`)
+    return null
+  }
+
+  const isRevision =
+    user.subscriptionId === subscription.id && user.paymentMethod === 'paypal' && normalizeTier(user.subscriptionTier) !== 'free'
+
+  return prisma.user.update({
+    where: { id: user.id },
+    data: {
+      subscriptionTier: isRevision && !planPaid ? user.subscriptionTier : tier,
+      subscriptionId: subscription.id,
+      subscriptionStatus: 'active',
+      paymentMethod: 'paypal',
+      cancelAtPeriodEnd: false,
+      currentPeriodEnd: subscription.billing_info?.next_billing_time
+        ? new Date(subscription.billing_info.next_billing_time)
+        : null,
+    },
+  })
+}
+
+async function handleSubscriptionEnded(subscription: PayPalSubscription) {
+  const user = await prisma.user.findFirst({ where: { subscriptionId: subscription.id, paymentMethod: 'paypal' } })
+  if (!user) return
+
+  // Canceled at period end: the tier stays until expireEndedSubscriptions() drops it
+  if (user.cancelAtPeriodEnd && user.currentPeriodEnd && user.currentPeriodEnd > new Date()) return
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      subscriptionTier: 'free',
+      subscriptionId: null,
+      subscriptionStatus: 'canceled',
+      paymentMethod: null,
+      cancelAtPeriodEnd: false,
+      currentPeriodEnd: null,
+    },
+  })
+}
+
+async function markPastDue(subscriptionId: string) {
+  await prisma.user.updateMany({
+    where: { subscriptionId, paymentMethod: 'paypal' },
+    data: { subscriptionStatus: 'past_due' },
+  })
+}
+
+// Subscription payments arrive as sales linked to the subscription by billing_agreement_id
+interface PayPalSale {
+  id: string
+  billing_agreement_id?: string
+  amount: { total: string; currency: string; details?: { subtotal?: string; tax?: string } }
+  create_time?: string
+}
+
+async function handleSaleCompleted(sale: PayPalSale) {
+  if (!sale.billing_agreement_id) return
+  const user = await prisma.user.findFirst({ where: { subscriptionId: sale.billing_agreement_id } })
+  if (!user) return
+
+  // The payment confirms whatever plan the subscription is on now
+  const subscription = await getSubscription(sale.billing_agreement_id)
+  const updated = subscription.status === 'ACTIVE' ? await activatePayPalSubscription(subscription, { planPaid: true }) : null
+
+  const tax = toMinorUnits(sale.amount.details?.tax)
+  const total = toMinorUnits(sale.amount.total)
+  await recordInvoice({
+    userId: user.id,
+    provider: 'paypal',
+    providerId: sale.id,
+    status: 'paid',
+    tier: updated?.subscriptionTier ?? user.subscriptionTier,
+    currency: sale.amount.currency,
+    subtotal: sale.amount.details?.subtotal ? toMinorUnits(sale.amount.details.subtotal) : total - tax,
+    tax,
+    total,
+    paidAt: sale.create_time ? new Date(sale.create_time) : new Date(),
+  })
+}
+
+async function handlePaymentFailed(event: PayPalWebhookEvent) {
+  const subscription: PayPalSubscription = event.resource
+  await markPastDue(subscription.id)
+
+  const user = await prisma.user.findFirst({ where: { subscriptionId: subscription.id, paymentMethod: 'paypal' } })
+  const failed = subscription.billing_info?.last_failed_payment
+  if (!user || !failed) return
+
+  // A failed attempt has no sale id; the webhook event stands in for it
+  const total = toMinorUnits(failed.amount.value)
+  await recordInvoice({
+    userId: user.id,
+    provider: 'paypal',
+    providerId: event.id,
+    status: 'failed',
+    tier: user.subscriptionTier,
+    currency: failed.amount.currency_code,
+    subtotal: total,
+    total,
+  })
+}
+
+export async function handlePayPalEvent(event: PayPalWebhookEvent) {
+  switch (event.event_type) {
+    case 'BILLING.SUBSCRIPTION.ACTIVATED':
+    case 'BILLING.SUBSCRIPTION.RE-ACTIVATED':
+    case 'BILLING.SUBSCRIPTION.UPDATED':
+      if (event.resource.status === 'ACTIVE') await activatePayPalSubscription(event.resource)
+      return
+    case 'BILLING.SUBSCRIPTION.CANCELLED':
+    case 'BILLING.SUBSCRIPTION.EXPIRED':
+      return handleSubscriptionEnded(event.resource)
+    case 'BILLING.SUBSCRIPTION.SUSPENDED':
+      return markPastDue(event.resource.id)
+    case 'BILLING.SUBSCRIPTION.PAYMENT.FAILED':
+      // PayPal retries failed payments; the tier is only dropped once the subscription ends
+      return handlePaymentFailed(event)
+    case 'PAYMENT.SALE.COMPLETED':
+      return handleSaleCompleted(event.resource)
+    case 'PAYMENT.SALE.REFUNDED':
+    case 'PAYMENT.SALE.REVERSED':
+      return markInvoiceRefunded('paypal', event.resource.sale_id ?? event.resource.id)
+  }
+}
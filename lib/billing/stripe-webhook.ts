@@ -0,0 +1,172 @@
+import type Stripe from 'stripe'
+import { prisma } from '@/lib/prisma'
+import { tierForPriceId } from '@/lib/stripe'
+import { isTier } from '@/lib/entitlements'
+import { adoptFirstPaymentMethod } from '@/lib/billing/payment-methods'
+import { markInvoiceRefunded, recordInvoice, type InvoiceStatus } from '@/lib/billing/invoices'
+
+type Expandable = string | { id: string } | null | undefined
+
+function idOf(value: Expandable) {
+  if (!value) return null
+  return typeof value === 'string' ? value : value.id
+}
+
+async function findUserForSubscription(subscriptionId: string | null, customerId: string | null) {
+  if (subscriptionId) {
+    const user = await prisma.user.findFirst({ where: { subscriptionId, paymentMethod: 'stripe' } })
+    if (user) return user
+  }
+  if (customerId) {
+    return prisma.user.findUnique({ where: { stripeCustomerId: customerId } })
+  }
+  return null
+}
+
+async function handleCheckoutCompleted(session: Stripe.Checkout.Session) {
+  if (session.mode !== 'subscription') return
+
+  const userId = session.client_reference_id ?? session.metadata?.userId
+  const tier = session.metadata?.tier
+  if (!userId || !isTier(tier)) {
+    console.warn(`Stripe checkout ${session.id} is missing userId or tier metadata`)
+    return
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      subscriptionTier: tier,
+      subscriptionId: idOf(session.subscription),
+      subscriptionStatus: 'active',
+      paymentMethod: 'stripe',
+      stripeCustomerId: idOf(session.customer) ?? undefined,
+      cancelAtPeriodEnd: false,
+    },
+  })
+}
+
+async function handleSubscriptionUpdated(subscription: Stripe.Subscription) {
+  const user = await findUserForSubscription(subscription.id, idOf(subscription.customer))
+  if (!user) return
+
+  const priceId = subscription.items.data[0]?.price.id
+  const tier = tierForPriceId(priceId) ?? subscription.metadata?.tier
+  const period = {
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    currentPeriodEnd: new Date(subscription.current_period_end * 1000),
+  }
+
+  switch (subscription.status) {
+    case 'active':
+    case 'trialing':
+      await prisma.user.update({
+        where: { id: user.id },
+        data: {
+          subscriptionTier: isTier(tier) ? tier : user.subscriptionTier,
+          subscriptionId: subscription.id,
+          subscriptionStatus: 'active',
+          paymentMethod: 'stripe',
+          ...period,
+        },
+      })
+      break
+
+    case 'past_due':
+      await prisma.user.update({ where: { id: user.id }, data: { subscriptionStatus: 'past_due', ...period } })
+      break
+
+    case 'canceled':
+    case 'unpaid':
+    case 'incomplete_expired':
+      await handleSubscriptionDeleted(subscription)
+      break
+  }
+}
+
+async function handleSubscriptionDeleted(subscription: Stripe.Subscription) {
+  const user = await findUserForSubscription(subscription.id, idOf(subscription.customer))
+  // Ignore stale events for a subscription the user has since replaced
+  if (!user || (user.subscriptionId && user.subscriptionId !== subscription.id)) return
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      subscriptionTier: 'free',
+      subscriptionId: null,
+      subscriptionStatus: 'canceled',
+      paymentMethod: null,
+      cancelAtPeriodEnd: false,
+      currentPeriodEnd: null,
+    },
+  })
+}
+
+async function recordStripeInvoice(userId: string, invoice: Stripe.Invoice, status: InvoiceStatus) {
+  const line = invoice.lines.data[0]
+  await recordInvoice({
+    userId,
+    provider: 'stripe',
+    providerId: invoice.id,
+    number: invoice.number,
+    status,
+    tier: tierForPriceId(line?.price?.id),
+    description: line?.description,
+    currency: invoice.currency,
+    subtotal: invoice.subtotal_excluding_tax ?? invoice.subtotal,
+    tax: invoice.tax ?? 0,
+    total: invoice.total,
+    periodStart: line ? new Date(line.period.start * 1000) : null,
+    periodEnd: line ? new Date(line.period.end * 1000) : null,
+    paidAt: invoice.status_transitions.paid_at ? new Date(invoice.status_transitions.paid_at * 1000) : null,
+  })
+}
+
+async function handleInvoicePaid(invoice: Stripe.Invoice) {
+  // Skip the $0 invoices Stripe issues for trials and fully credited periods
+  if (invoice.total === 0) return
+
+  const user = await findUserForSubscription(idOf(invoice.subscription), idOf(invoice.customer))
+  if (!user) return
+
+  await recordStripeInvoice(user.id, invoice, 'paid')
+}
+
+async function handlePaymentFailed(invoice: Stripe.Invoice) {
+  const user = await findUserForSubscription(idOf(invoice.subscription), idOf(invoice.customer))
+  if (!user) return
+
+  await recordStripeInvoice(user.id, invoice, 'failed')
+
+  // Stripe keeps retrying; the tier is only dropped once the subscription is canceled
+  await prisma.user.update({ where: { id: user.id }, data: { subscriptionStatus: 'past_due' } })
+}
+
+async function handleSetupSucceeded(setupIntent: Stripe.SetupIntent) {
+  const customerId = idOf(setupIntent.customer)
+  const paymentMethodId = idOf(setupIntent.payment_method)
+  if (customerId && paymentMethodId) await adoptFirstPaymentMethod(customerId, paymentMethodId)
+}
+
+export async function handleStripeEvent(event: Stripe.Event) {
+  switch (event.type) {
+    case 'checkout.session.completed':
+      return handleCheckoutCompleted(event.data.object)
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+      return handleSubscriptionUpdated(event.data.object)
+    case 'customer.subscription.deleted':
+      return handleSubscriptionDeleted(event.data.object)
+    case 'invoice.paid':
+      return handleInvoicePaid(event.data.object)
+    case 'invoice.payment_failed':
+      return handlePaymentFailed(event.data.object)
+    case 'charge.refunded':
+      if (event.data.object.refunded && event.data.object.invoice) {
+        return markInvoiceRefunded('stripe', idOf(event.data.object.invoice)!)
+      }
+      return
+    case 'setup_intent.succeeded':
+      return handleSetupSucceeded(event.data.object)
+  }
+}
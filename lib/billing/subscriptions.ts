@@ -0,0 +1,306 @@
+import type { User } from '@prisma/client'
+import type Stripe from 'stripe'
+import { prisma } from '@/lib/prisma'
+import { isStripeDemoMode, stripe, STRIPE_PLANS } from '@/lib/stripe'
+import {
+  cancelSubscription as cancelPayPalSubscription,
+  getSubscription as getPayPalSubscription,
+  isPayPalDemoMode,
+  PAYPAL_PLANS,
+  reviseSubscription,
+} from '@/lib/paypal'
+import { hasTier, normalizeTier, PLANS, type Tier } from '@/lib/entitlements'
+
+export type PaidTier = Exclude<Tier, 'free'>
+
+export class SubscriptionError extends Error {
+  constructor(message: string, public status = 400, public code?: string) {
+    super(message)
+    this.name = 'SubscriptionError'
+  }
+}
+
+export interface ChangePreview {
+  tier: PaidTier
+  currency: string
+  // Prorated difference in minor units: charged now for upgrades, credited
+  // against the next invoice for downgrades
+  amountDue: number
+  recurringAmount: number
+  nextBillingAt: string | null
+  // PayPal asks the buyer to approve a new price before it applies
+  requiresApproval: boolean
+}
+
+export interface ChangeResult {
+  tier: Tier
+  approvalUrl: string | null
+  // Stripe upgrades whose charge needs the customer (e.g. 3D Secure): the
+  // browser confirms this PaymentIntent and the webhook applies the tier
+  paymentStatus?: 'requires_action'
+  clientSecret?: string
+}
+
+interface SubscriptionProvider {
+  cancel(user: User, immediately: boolean): Promise<void>
+  previewChange(user: User, tier: PaidTier): Promise<ChangePreview>
+  change(user: User, tier: PaidTier, options: { baseUrl: string }): Promise<ChangeResult>
+}
+
+const ENDED = {
+  subscriptionTier: 'free',
+  subscriptionId: null,
+  subscriptionStatus: 'canceled',
+  paymentMethod: null,
+  cancelAtPeriodEnd: false,
+  currentPeriodEnd: null,
+}
+
+const BILLING_PERIOD_MS = 30 * 24 * 60 * 60 * 1000
+
+function fromUnix(seconds: number | null | undefined) {
+  return seconds ? new Date(seconds * 1000) : null
+}
+
+function oneMonthFrom(date: Date) {
+  const next = new Date(date)
+  next.setMonth(next.getMonth() + 1)
+  return next
+}
+
+const stripeProvider: SubscriptionProvider = {
+  async cancel(user, immediately) {
+    if (immediately) {
+      await stripe.subscriptions.cancel(user.subscriptionId!, { prorate: true })
+      await prisma.user.update({ where: { id: user.id }, data: ENDED })
+      return
+    }
+
+    const subscription = await stripe.subscriptions.update(user.subscriptionId!, { cancel_at_period_end: true })
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { cancelAtPeriodEnd: true, currentPeriodEnd: fromUnix(subscription.current_period_end) },
+    })
+  },
+
+  async previewChange(user, tier) {
+    const subscription = await stripe.subscriptions.retrieve(user.subscriptionId!)
+    const invoice = await stripe.invoices.retrieveUpcoming({
+      customer: typeof subscription.customer === 'string' ? subscription.customer : subscription.customer.id,
+      subscription: subscription.id,
+      subscription_items: [{ id: subscription.items.data[0].id, price: STRIPE_PLANS[tier].priceId }],
+      subscription_proration_behavior: 'create_prorations',
+      subscription_proration_date: Math.floor(Date.now() / 1000),
+    })
+
+    return {
+      tier,
+      currency: invoice.currency,
+      amountDue: invoice.lines.data.filter((line) => line.proration).reduce((sum, line) => sum + line.amount, 0),
+      recurringAmount: STRIPE_PLANS[tier].amount,
+      nextBillingAt: fromUnix(subscription.current_period_end)?.toISOString() ?? null,
+      requiresApproval: false,
+    }
+  },
+
+  async change(user, tier) {
+    const subscription = await stripe.subscriptions.retrieve(user.subscriptionId!)
+    const isUpgrade = !hasTier(user.subscriptionTier, tier)
+
+    // Upgrades are invoiced straight away and, with pending_if_incomplete, only
+    // take effect once that invoice is paid. Stripe refuses metadata on such an
+    // update; the webhooks go by the price anyway. Downgrades leave a credit on
+    // the next invoice.
+    const updated = await stripe.subscriptions.update(subscription.id, {
+      items: [{ id: subscription.items.data[0].id, price: STRIPE_PLANS[tier].priceId }],
+      proration_behavior: isUpgrade ? 'always_invoice' : 'create_prorations',
+      ...(isUpgrade
+        ? { payment_behavior: 'pending_if_incomplete' as const, expand: ['latest_invoice.payment_intent'] }
+        : { metadata: { ...subscription.metadata, tier } }),
+    })
+
+    if (updated.pending_update) {
+      const invoice = typeof updated.latest_invoice === 'object' ? updated.latest_invoice : null
+      const intent: Stripe.PaymentIntent | null =
+        invoice && typeof invoice.payment_intent === 'object' ? invoice.payment_intent : null
+
+      // customer.subscription.updated grants the tier once the customer has confirmed
+      if (intent?.status === 'requires_action' && intent.client_secret) {
+        return {
+          tier: normalizeTier(user.subscriptionTier),
+          approvalUrl: null,
+          paymentStatus: 'requires_action',
+          clientSecret: intent.client_secret,
+        }
+      }
+      throw new SubscriptionError(
+        'The payment for the new plan did not go through. Check your card and try again.',
+        402,
+        'PAYMENT_FAILED'
+      )
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { subscriptionTier: tier, currentPeriodEnd: fromUnix(updated.current_period_end) },
+    })
+    return { tier, approvalUrl: null }
+  },
+}
+
+const paypalProvider: SubscriptionProvider = {
+  async cancel(user, immediately) {
+    // PayPal cancellations stop billing at once, so remember how far the last
+    // payment reaches first. It is stored before calling PayPal: the CANCELLED
+    // webhook can arrive before the call returns and only keeps the tier when
+    // it finds a paid-through date.
+    const subscription = await getPayPalSubscription(user.subscriptionId!)
+    const paidUntil = subscription.billing_info?.next_billing_time
+
+    if (immediately || !paidUntil) {
+      await cancelPayPalSubscription(user.subscriptionId!, 'Canceled by the customer')
+      await prisma.user.update({ where: { id: user.id }, data: ENDED })
+      return
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { cancelAtPeriodEnd: true, currentPeriodEnd: new Date(paidUntil) },
+    })
+    try {
+      await cancelPayPalSubscription(user.subscriptionId!, 'Canceled by the customer')
+    } catch (error) {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { cancelAtPeriodEnd: user.cancelAtPeriodEnd, currentPeriodEnd: user.currentPeriodEnd },
+      })
+      throw error
+    }
+  },
+
+  async previewChange(user, tier) {
+    const subscription = await getPayPalSubscription(user.subscriptionId!)
+    const plan = PAYPAL_PLANS[tier]
+
+    // PayPal does not prorate revisions: the new price starts with the next billing cycle
+    return {
+      tier,
+      currency: plan.currency.toLowerCase(),
+      amountDue: 0,
+      recurringAmount: Math.round(Number(plan.amount) * 100),
+      nextBillingAt: subscription.billing_info?.next_billing_time ?? null,
+      requiresApproval: true,
+    }
+  },
+
+  async change(user, tier, { baseUrl }) {
+    const { approvalUrl } = await reviseSubscription(user.subscriptionId!, {
+      tier,
+      returnUrl: `${baseUrl}/api/paypal/return`,
+      cancelUrl: `${baseUrl}/settings?tab=subscription`,
+    })
+    // The current tier stays until the first payment at the new price; the
+    // PAYMENT.SALE.COMPLETED webhook then applies the new one
+    return { tier: normalizeTier(user.subscriptionTier), approvalUrl }
+  },
+}
+
+// Used when the provider runs in demo mode: nothing is charged, the database is the subscription
+const demoProvider: SubscriptionProvider = {
+  async cancel(user, immediately) {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: immediately
+        ? ENDED
+        : { cancelAtPeriodEnd: true, currentPeriodEnd: user.currentPeriodEnd ?? oneMonthFrom(new Date()) },
+    })
+  },
+
+  async previewChange(user, tier) {
+    const now = new Date()
+    const periodEnd = user.currentPeriodEnd ?? oneMonthFrom(now)
+    const remaining = Math.min(Math.max((periodEnd.getTime() - now.getTime()) / BILLING_PERIOD_MS, 0), 1)
+    const difference = PLANS[tier].price - PLANS[normalizeTier(user.subscriptionTier)].price
+
+    return {
+      tier,
+      currency: 'usd',
+      amountDue: Math.round(difference * remaining),
+      recurringAmount: PLANS[tier].price,
+      nextBillingAt: periodEnd.toISOString(),
+      requiresApproval: false,
+    }
+  },
+
+  async change(user, tier) {
+    await prisma.user.update({ where: { id: user.id }, data: { subscriptionTier: tier } })
+    return { tier, approvalUrl: null }
+  },
+}
+
+function providerFor(user: User) {
+  if (user.paymentMethod === 'stripe') return isStripeDemoMode() ? demoProvider : stripeProvider
+  if (user.paymentMethod === 'paypal') return isPayPalDemoMode() ? demoProvider : paypalProvider
+  throw new SubscriptionError(`Unknown payment method ${user.paymentMethod}`, 500)
+}
+
+async function loadSubscribedUser(userId: string) {
+  const user = await prisma.user.findUnique({ where: { id: userId } })
+  if (!user) throw new SubscriptionError('User not found', 404)
+  if (!user.subscriptionId || !user.paymentMethod || normalizeTier(user.subscriptionTier) === 'free') {
+    throw new SubscriptionError('No active subscription', 400, 'NO_SUBSCRIPTION')
+  }
+  return user
+}
+
+function assertCanChange(user: User, tier: PaidTier) {
+  if (user.subscriptionTier === tier) {
+    throw new SubscriptionError(`Already on the ${PLANS[tier].name} plan`, 400, 'SAME_TIER')
+  }
+  if (user.cancelAtPeriodEnd) {
+    throw new SubscriptionError('This subscription is canceled; subscribe again once it ends', 409, 'CANCELED')
+  }
+}
+
+export function subscriptionState(user: User) {
+  return {
+    tier: normalizeTier(user.subscriptionTier),
+    paymentMethod: user.paymentMethod,
+    status: user.subscriptionStatus,
+    cancelAtPeriodEnd: user.cancelAtPeriodEnd,
+    currentPeriodEnd: user.currentPeriodEnd?.toISOString() ?? null,
+  }
+}
+
+// By default the paid tier runs until the end of the period already paid for
+export async function cancelSubscription(userId: string, options: { immediately?: boolean } = {}) {
+  const user = await loadSubscribedUser(userId)
+  if (user.cancelAtPeriodEnd && !options.immediately) {
+    return subscriptionState(user)
+  }
+
+  await providerFor(user).cancel(user, options.immediately ?? false)
+  return subscriptionState(await prisma.user.findUniqueOrThrow({ where: { id: userId } }))
+}
+
+export async function previewPlanChange(userId: string, tier: PaidTier) {
+  const user = await loadSubscribedUser(userId)
+  assertCanChange(user, tier)
+  return providerFor(user).previewChange(user, tier)
+}
+
+export async function changePlan(userId: string, tier: PaidTier, options: { baseUrl: string }) {
+  const user = await loadSubscribedUser(userId)
+  assertCanChange(user, tier)
+  return providerFor(user).change(user, tier, options)
+}
+
+// Drops subscriptions that were canceled at period end once that period is over.
+// Stripe also reports this with customer.subscription.deleted; PayPal does not.
+export async function expireEndedSubscriptions(now = new Date()) {
+  const { count } = await prisma.user.updateMany({
+    where: { cancelAtPeriodEnd: true, currentPeriodEnd: { lte: now } },
+    data: ENDED,
+  })
+  return count
+}
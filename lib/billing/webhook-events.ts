@@ -0,0 +1,27 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+export type WebhookProvider = 'stripe' | 'paypal'
+
+// Runs `handler` once per provider event id. Providers retry deliveries, so a
+// repeated id is acknowledged without being processed again. The event is only
+// marked as processed after the handler succeeds, so failures are retried.
+export async function processOnce(
+  provider: WebhookProvider,
+  event: { id: string; type: string },
+  handler: () => Promise<void>
+) {
+  const existing = await prisma.webhookEvent.findUnique({ where: { id: event.id } })
+  if (existing) return { duplicate: true }
+
+  await handler()
+
+  try {
+    await prisma.webhookEvent.create({ data: { id: event.id, provider, type: event.type } })
+  } catch (error) {
+    // A concurrent delivery of the same event finished first
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) throw error
+  }
+
+  return { duplicate: false }
+}
@@ -0,0 +1,154 @@
+import type { Prisma, RecommendationItem } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { recordAudit, type AuditActor } from '@/lib/audit'
+import { parseCsv, toCsv } from '@/lib/csv'
+import { CATALOG_CSV_COLUMNS, CatalogItemSchema, type CatalogItemData } from '@/lib/catalog-schema'
+
+export class CatalogError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message)
+    this.name = 'CatalogError'
+  }
+}
+
+export interface CatalogImportError {
+  line: number
+  message: string
+}
+
+export async function listCategories() {
+  return prisma.category.findMany({ orderBy: { sortOrder: 'asc' } })
+}
+
+export async function listCatalogItems(options: { categoryId?: string; includeArchived?: boolean; query?: string }) {
+  const where: Prisma.RecommendationItemWhereInput = {}
+  if (options.categoryId) where.categoryId = options.categoryId
+  if (!options.includeArchived) where.archived = false
+  if (options.query) {
+    where.OR = [
+      { title: { contains: options.query } },
+      { description: { contains: options.query } },
+      { tags: { contains: options.query } },
+    ]
+  }
+
+  return prisma.recommendationItem.findMany({
+    where,
+    orderBy: [{ categoryId: 'asc' }, { createdAt: 'asc' }],
+  })
+}
+
+async function assertCategoryExists(categoryId: string) {
+  const category = await prisma.category.findUnique({ where: { id: categoryId } })
+  if (!category) throw new CatalogError(`Unknown category "${categoryId}"`)
+}
+
+export async function createCatalogItem(data: CatalogItemData, actor: AuditActor) {
+  await assertCategoryExists(data.categoryId)
+  const item = await prisma.recommendationItem.create({ data })
+  await recordAudit({ actor, action: 'catalog.create', targetId: item.id, details: { title: item.title } })
+  return item
+}
+
+export async function updateCatalogItem(id: string, data: CatalogItemData, actor: AuditActor) {
+  const existing = await prisma.recommendationItem.findUnique({ where: { id } })
+  if (!existing) throw new CatalogError('Item not found', 404)
+  await assertCategoryExists(data.categoryId)
+
+  // Archiving has its own endpoint; an edit never changes it
+  const { archived: _archived, ...fields } = data
+  const item = await prisma.recommendationItem.update({ where: { id }, data: fields })
+  await recordAudit({ actor, action: 'catalog.update', targetId: id, details: { title: item.title } })
+  return item
+}
+
+// Items are archived rather than deleted so history and feedback keep pointing at them
+export async function setItemArchived(id: string, archived: boolean, actor: AuditActor) {
+  const existing = await prisma.recommendationItem.findUnique({ where: { id } })
+  if (!existing) throw new CatalogError('Item not found', 404)
+
+  const item = await prisma.recommendationItem.update({ where: { id }, data: { archived } })
+  await recordAudit({ actor, action: archived ? 'catalog.archive' : 'catalog.restore', targetId: id })
+  return item
+}
+
+export async function exportCatalogCsv(categoryId?: string) {
+  const items = await listCatalogItems({ categoryId, includeArchived: true })
+  const rows = items.map((item) => CATALOG_CSV_COLUMNS.map((column) => item[column as keyof RecommendationItem]))
+  return toCsv([[...CATALOG_CSV_COLUMNS], ...rows])
+}
+
+// Rows with an id that exists are updated, everything else is created. The
+// whole file is validated first and nothing is written if any row is invalid.
+export async function importCatalogCsv(text: string, actor: AuditActor, options: { dryRun?: boolean } = {}) {
+  const [header, ...rows] = parseCsv(text)
+  if (!header) throw new CatalogError('The file is empty')
+
+  const columns = header.map((column) => column.trim())
+  const missing = ['categoryId', 'title'].filter((column) => !columns.includes(column))
+  if (missing.length) throw new CatalogError(`Missing required columns: ${missing.join(', ')}`)
+
+  const categoryIds = new Set((await listCategories()).map((category) => category.id))
+  const errors: CatalogImportError[] = []
+  const parsed: { id: string | null; data: CatalogItemData }[] = []
+  // Line each id was first seen on, so a repeated id is reported instead of
+  // failing the whole transaction on the unique constraint
+  const seenIds = new Map<string, number>()
+
+  rows.forEach((cells, index) => {
+    const line = index + 2 // 1-based, after the header
+    const record = Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? '']))
+    const result = CatalogItemSchema.safeParse(record)
+
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        errors.push({ line, message: `${issue.path.join('.') || 'row'}: ${issue.message}` })
+      }
+      return
+    }
+    if (!categoryIds.has(result.data.categoryId)) {
+      errors.push({ line, message: `categoryId: unknown category "${result.data.categoryId}"` })
+      return
+    }
+
+    const id = record.id?.trim() || null
+    if (id && seenIds.has(id)) {
+      errors.push({ line, message: `id: "${id}" is already used on line ${seenIds.get(id)}` })
+      return
+    }
+    if (id) seenIds.set(id, line)
+    parsed.push({ id, data: result.data })
+  })
+
+  const existingIds = new Set(
+    (
+      await prisma.recommendationItem.findMany({
+        where: { id: { in: parsed.flatMap((row) => (row.id ? [row.id] : [])) } },
+        select: { id: true },
+      })
+    ).map((item) => item.id)
+  )
+  const updated = parsed.filter((row) => row.id && existingIds.has(row.id)).length
+  const summary = { created: parsed.length - updated, updated, errors }
+
+  if (errors.length || options.dryRun) return summary
+
+  // Updates only touch the columns present in the file
+  const provided = (data: CatalogItemData) =>
+    Object.fromEntries(Object.entries(data).filter(([column]) => columns.includes(column)))
+
+  await prisma.$transaction(
+    parsed.map((row) =>
+      row.id && existingIds.has(row.id)
+        ? prisma.recommendationItem.update({ where: { id: row.id }, data: provided(row.data) })
+        : prisma.recommendationItem.create({ data: { ...row.data, id: row.id ?? undefined } })
+    )
+  )
+  await recordAudit({
+    actor,
+    action: 'catalog.import',
+    details: { created: summary.created, updated: summary.updated },
+  })
+
+  return summary
+}
@@ -0,0 +1,79 @@
+import { z } from 'zod'
+
+// Validation for catalog items edited in /admin/catalog, shared by the admin
+// form and the API so both reject the same input. Free of server imports.
+
+// Column order of the CSV import/export
+export const CATALOG_CSV_COLUMNS = [
+  'id',
+  'categoryId',
+  'type',
+  'title',
+  'description',
+  'image',
+  'tags',
+  'price',
+  'currency',
+  'calories',
+  'duration',
+  'weather',
+  'archived',
+] as const
+
+// Blank strings become null so optional columns can be cleared
+const optionalText = (max: number) =>
+  z
+    .string()
+    .trim()
+    .max(max, `Must be ${max} characters or fewer`)
+    .nullish()
+    .transform((value) => value || null)
+
+const optionalCount = z
+  .union([z.number(), z.string().trim()])
+  .nullish()
+  .transform((value, ctx) => {
+    if (value === '' || value == null) return null
+    const number = Number(value)
+    if (!Number.isInteger(number) || number < 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Must be a whole number' })
+      return z.NEVER
+    }
+    return number
+  })
+
+export function normalizeTags(tags: string | string[] | null | undefined) {
+  const list = Array.isArray(tags) ? tags : (tags ?? '').split(',')
+  return Array.from(new Set(list.map((tag) => tag.trim()).filter(Boolean))).join(',')
+}
+
+export const CatalogItemSchema = z.object({
+  categoryId: z.string().trim().min(1, 'Category is required'),
+  title: z.string().trim().min(1, 'Title is required').max(120, 'Must be 120 characters or fewer'),
+  type: optionalText(40),
+  description: optionalText(500),
+  image: optionalText(500).refine(
+    // Browsers read a leading // or /\ as a link to another host
+    (value) => !value || /^\/(?![/\\])/.test(value) || /^https?:\/\//.test(value),
+    'Must be an http(s) URL or an uploaded image path'
+  ),
+  tags: z
+    .union([z.string(), z.array(z.string())])
+    .nullish()
+    .transform(normalizeTags),
+  // Minor units, e.g. 9900 = ¥99
+  price: optionalCount,
+  currency: optionalText(3)
+    .refine((value) => !value || /^[A-Za-z]{3}$/.test(value), 'Must be a 3-letter currency code')
+    .transform((value) => value?.toUpperCase() ?? null),
+  calories: optionalCount,
+  duration: optionalText(40),
+  weather: optionalText(40),
+  archived: z
+    .union([z.boolean(), z.string()])
+    .optional()
+    .transform((value) => value === true || value === 'true' || value === '1'),
+})
+
+export type CatalogItemInput = z.input<typeof CatalogItemSchema>
+export type CatalogItemData = z.output<typeof CatalogItemSchema>
@@ -0,0 +1,59 @@
+import type { RecommendationItem } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+// Shape returned by POST /api/recommend/[category] and rendered by the category page
+export interface Recommendation {
+  id: string
+  type?: string
+  title: string
+  description?: string
+  image?: string
+  price?: string
+  calories?: number
+  reason?: string
+  duration?: string
+  weather?: string
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  CNY: '¥',
+  USD: '$',
+}
+
+export function formatPrice(amount: number, currency = 'CNY') {
+  const symbol = CURRENCY_SYMBOLS[currency] ?? `${currency} `
+  const value = amount / 100
+  return `${symbol}${Number.isInteger(value) ? value : value.toFixed(2)}`
+}
+
+export function parseTags(tags: string) {
+  return tags
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter(Boolean)
+}
+
+export async function getCategory(categoryId: string) {
+  return prisma.category.findUnique({ where: { id: categoryId } })
+}
+
+export async function getActiveItems(categoryId: string) {
+  return prisma.recommendationItem.findMany({
+    where: { categoryId, archived: false },
+    orderBy: { createdAt: 'asc' },
+  })
+}
+
+export function toRecommendation(item: RecommendationItem): Recommendation {
+  return {
+    id: item.id,
+    type: item.type ?? undefined,
+    title: item.title,
+    description: item.description ?? undefined,
+    image: item.image ?? undefined,
+    price: item.price != null ? formatPrice(item.price, item.currency ?? undefined) : undefined,
+    calories: item.calories ?? undefined,
+    duration: item.duration ?? undefined,
+    weather: item.weather ?? undefined,
+  }
+}
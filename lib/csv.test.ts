@@ -0,0 +1,23 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { parseCsv, toCsv } from '@/lib/csv'
+
+const roundTrip = (value: string) => parseCsv(toCsv([[value, 'end']]))[0][0]
+
+test('quotes fields with commas, quotes and line breaks', () => {
+  assert.equal(toCsv([['a,b', 'say "hi"', 'two\nlines']]), '"a,b","say ""hi""","two\nlines"\r\n')
+  assert.deepEqual(parseCsv('"a,b","say ""hi""","two\nlines"\r\n'), [['a,b', 'say "hi"', 'two\nlines']])
+})
+
+for (const trigger of ['=', '+', '-', '@', '\t', '\r']) {
+  test(`exports cells starting with ${JSON.stringify(trigger)} as text and reads them back`, () => {
+    const value = `${trigger}SUM(A1)`
+    assert.ok(toCsv([[value]]).replace(/^"/, '').startsWith(`'${trigger}`))
+    assert.equal(roundTrip(value), value)
+  })
+}
+
+test('keeps values that already start with a quote', () => {
+  assert.equal(roundTrip("'=SUM(A1)"), "'=SUM(A1)")
+  assert.equal(roundTrip("'plain"), "'plain")
+})
@@ -0,0 +1,69 @@
+// Minimal RFC 4180 CSV reading and writing: quoted fields, escaped quotes and
+// line breaks inside quotes. Enough for catalog import/export.
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  // Spreadsheet apps like to prepend a byte order mark
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Drop blank lines
+  return rows
+    .filter((cells) => cells.some((cell) => cell.trim() !== ''))
+    .map((cells) => cells.map((cell) => (cell.startsWith("'") && FORMULA.test(cell) ? cell.slice(1) : cell)))
+}
+
+// Spreadsheet apps run cells starting with these (tab and carriage return
+// included, per OWASP's CSV injection guidance) as formulas. Exported cells
+// get a leading ' so they open as text; parseCsv strips it again, and also
+// escapes values that already start with ' so they survive the round trip.
+const FORMULA = /^'*[=+\-@\t\r]/
+
+function escapeField(value: unknown) {
+  const raw = value == null ? '' : String(value)
+  const text = FORMULA.test(raw) ? `'${raw}` : raw
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(rows: unknown[][]) {
+  return rows.map((row) => row.map(escapeField).join(',')).join('\r\n') + '\r\n'
+}
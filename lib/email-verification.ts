@@ -0,0 +1,63 @@
+import { prisma } from '@/lib/prisma'
+import { sendMail } from '@/lib/mailer'
+import { generateToken, hashToken } from '@/lib/tokens'
+
+const TOKEN_TTL_MS = 24 * 60 * 60 * 1000
+const RESEND_INTERVAL_MS = 60 * 1000
+
+export class VerificationError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message)
+    this.name = 'VerificationError'
+  }
+}
+
+// Replaces any earlier token for the address, so only the latest link works
+export async function sendVerificationEmail(email: string, baseUrl: string) {
+  const { token, hash } = generateToken()
+
+  await prisma.$transaction([
+    prisma.verificationToken.deleteMany({ where: { identifier: email } }),
+    prisma.verificationToken.create({
+      data: { identifier: email, token: hash, expires: new Date(Date.now() + TOKEN_TTL_MS) },
+    }),
+  ])
+
+  const link = `${baseUrl}/verify-email?token=${token}`
+  await sendMail({
+    to: email,
+    subject: 'Confirm your RandomLife email address',
+    text: `Welcome to RandomLife!\n\nConfirm your email address to finish creating your account:\n\n${link}\n\nThe link expires in 24 hours. If you did not sign up, you can ignore this email.`,
+  })
+}
+
+export async function verifyEmail(token: string) {
+  const record = await prisma.verificationToken.findUnique({ where: { token: hashToken(token) } })
+  if (!record) throw new VerificationError('This link is invalid or has already been used')
+
+  await prisma.verificationToken.delete({ where: { token: record.token } })
+  if (record.expires < new Date()) throw new VerificationError('This link has expired. Request a new one from the login page.')
+
+  const user = await prisma.user.findUnique({ where: { email: record.identifier } })
+  if (!user) throw new VerificationError('This link is invalid or has already been used')
+
+  if (!user.emailVerified) {
+    await prisma.user.update({ where: { id: user.id }, data: { emailVerified: new Date() } })
+  }
+  return user
+}
+
+// Quietly does nothing for unknown or already verified addresses so the
+// endpoint cannot be used to find out who has an account
+export async function resendVerificationEmail(email: string, baseUrl: string) {
+  const user = await prisma.user.findUnique({ where: { email } })
+  if (!user || user.emailVerified) return
+
+  // At most one email a minute per address
+  const recent = await prisma.verificationToken.findFirst({
+    where: { identifier: email, expires: { gt: new Date(Date.now() + TOKEN_TTL_MS - RESEND_INTERVAL_MS) } },
+  })
+  if (recent) return
+
+  await sendVerificationEmail(user.email, baseUrl)
+}
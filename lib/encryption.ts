@@ -0,0 +1,26 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
+
+// AES-256-GCM for secrets that must be read back, such as TOTP seeds. The key
+// comes from ENCRYPTION_KEY, falling back to NEXTAUTH_SECRET; changing it
+// makes existing values unreadable.
+
+function key() {
+  const secret = process.env.ENCRYPTION_KEY || process.env.NEXTAUTH_SECRET
+  if (!secret) throw new Error('ENCRYPTION_KEY or NEXTAUTH_SECRET must be set')
+  return createHash('sha256').update(secret).digest()
+}
+
+// Output is "iv.tag.ciphertext", each part base64url
+export function encrypt(plaintext: string) {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', key(), iv)
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()])
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64url')).join('.')
+}
+
+export function decrypt(value: string) {
+  const [iv, tag, ciphertext] = value.split('.').map((part) => Buffer.from(part, 'base64url'))
+  const decipher = createDecipheriv('aes-256-gcm', key(), iv)
+  decipher.setAuthTag(tag)
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8')
+}
@@ -0,0 +1,139 @@
+// Single source of truth for what each subscription tier gets. The API enforces
+// these values and the pricing UI renders its feature lists from them.
+
+export const TIERS = ['free', 'pro', 'enterprise'] as const
+export type Tier = (typeof TIERS)[number]
+
+export type SupportLevel = 'community' | 'email' | 'phone'
+
+export interface Entitlements {
+  // null means unlimited
+  dailyRecommendations: number | null
+  historyLength: number | null
+  favorites: number | null
+  apiAccess: boolean
+  teamSeats: number
+  support: SupportLevel
+  adFree: boolean
+}
+
+export const ENTITLEMENTS: Record<Tier, Entitlements> = {
+  free: {
+    dailyRecommendations: 5,
+    historyLength: 3,
+    favorites: 10,
+    apiAccess: false,
+    teamSeats: 1,
+    support: 'community',
+    adFree: false,
+  },
+  pro: {
+    dailyRecommendations: null,
+    historyLength: null,
+    favorites: null,
+    apiAccess: false,
+    teamSeats: 1,
+    support: 'email',
+    adFree: true,
+  },
+  enterprise: {
+    dailyRecommendations: null,
+    historyLength: null,
+    favorites: null,
+    apiAccess: true,
+    teamSeats: 10,
+    support: 'phone',
+    adFree: true,
+  },
+}
+
+export interface Plan {
+  id: Tier
+  name: string
+  price: number // USD cents per month
+  // Marketing lines with no enforced entitlement behind them
+  extras: string[]
+}
+
+export const PLANS: Record<Tier, Plan> = {
+  free: {
+    id: 'free',
+    name: 'Free',
+    price: 0,
+    extras: ['Basic categories'],
+  },
+  pro: {
+    id: 'pro',
+    name: 'Pro',
+    price: 999,
+    extras: ['All categories', 'Advanced AI personalization', 'Custom preferences'],
+  },
+  enterprise: {
+    id: 'enterprise',
+    name: 'Max Enterprise',
+    price: 4999,
+    extras: [
+      'Everything in Pro',
+      'White-label options',
+      'Dedicated account manager',
+      'Custom integrations',
+      'Advanced analytics',
+      'SLA guarantee',
+    ],
+  },
+}
+
+const TIER_RANK: Record<Tier, number> = { free: 0, pro: 1, enterprise: 2 }
+
+const SUPPORT_LABELS: Record<SupportLevel, string> = {
+  community: 'Community support',
+  email: 'Priority email support',
+  phone: '24/7 phone support',
+}
+
+export function isTier(value: unknown): value is Tier {
+  return typeof value === 'string' && (TIERS as readonly string[]).includes(value)
+}
+
+// Unknown or missing tiers (anonymous visitors, stale sessions) are treated as free
+export function normalizeTier(tier: unknown): Tier {
+  return isTier(tier) ? tier : 'free'
+}
+
+export function getEntitlements(tier: unknown): Entitlements {
+  return ENTITLEMENTS[normalizeTier(tier)]
+}
+
+export function hasTier(tier: unknown, minimum: Tier) {
+  return TIER_RANK[normalizeTier(tier)] >= TIER_RANK[minimum]
+}
+
+export function formatPlanPrice(plan: Plan) {
+  return `$${plan.price === 0 ? 0 : (plan.price / 100).toFixed(2)}`
+}
+
+// Feature bullets for the pricing page, generated from the enforced entitlements
+export function planFeatures(tier: Tier): string[] {
+  const entitlements = ENTITLEMENTS[tier]
+  const features: string[] = []
+
+  features.push(
+    entitlements.dailyRecommendations === null
+      ? 'Unlimited recommendations'
+      : `${entitlements.dailyRecommendations} recommendations per day`
+  )
+  features.push(
+    entitlements.historyLength === null
+      ? 'Full recommendation history'
+      : `Recent history (${entitlements.historyLength} items)`
+  )
+  features.push(
+    entitlements.favorites === null ? 'Save unlimited favorites' : `Save up to ${entitlements.favorites} favorites`
+  )
+  if (entitlements.apiAccess) features.push('API access')
+  if (entitlements.teamSeats > 1) features.push(`Team collaboration (up to ${entitlements.teamSeats} users)`)
+  features.push(SUPPORT_LABELS[entitlements.support])
+  if (entitlements.adFree) features.push('Ad-free experience')
+
+  return [...PLANS[tier].extras, ...features]
+}
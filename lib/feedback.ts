@@ -0,0 +1,28 @@
+import { prisma } from '@/lib/prisma'
+
+export const FEEDBACK_ACTIONS = ['like', 'dislike', 'skip'] as const
+export type FeedbackAction = (typeof FEEDBACK_ACTIONS)[number]
+
+// Stores the user's latest opinion of an item. A skip never overwrites an
+// explicit like or dislike, it only refreshes an earlier skip.
+export async function saveFeedback(userId: string, itemId: string, categoryId: string, action: FeedbackAction) {
+  const existing = await prisma.feedback.findUnique({
+    where: { userId_itemId: { userId, itemId } },
+  })
+
+  if (existing && action === 'skip' && existing.action !== 'skip') {
+    return existing
+  }
+
+  return prisma.feedback.upsert({
+    where: { userId_itemId: { userId, itemId } },
+    update: { action },
+    create: { userId, itemId, categoryId, action },
+  })
+}
+
+export async function countFavorites(userId: string, excludeItemId?: string) {
+  return prisma.feedback.count({
+    where: { userId, action: 'like', ...(excludeItemId ? { itemId: { not: excludeItemId } } : {}) },
+  })
+}
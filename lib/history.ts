@@ -0,0 +1,69 @@
+import { prisma } from '@/lib/prisma'
+import { toRecommendation, type Recommendation } from '@/lib/catalog'
+
+export const DEFAULT_PAGE_SIZE = 20
+export const MAX_PAGE_SIZE = 50
+
+export interface HistoryEntry {
+  id: string
+  categoryId: string
+  createdAt: string
+  recommendation: Recommendation
+}
+
+export async function recordRecommendation(userId: string, categoryId: string, recommendation: Recommendation) {
+  return prisma.recommendationEvent.create({
+    data: {
+      userId,
+      categoryId,
+      itemId: recommendation.id,
+      reason: recommendation.reason,
+    },
+  })
+}
+
+interface ListHistoryOptions {
+  page?: number
+  pageSize?: number
+  categoryId?: string
+  // Only the newest `limit` entries are visible; null means the full history
+  limit?: number | null
+}
+
+export async function listHistory(
+  userId: string,
+  { page = 1, pageSize = DEFAULT_PAGE_SIZE, categoryId, limit = null }: ListHistoryOptions = {}
+) {
+  const where = { userId, ...(categoryId ? { categoryId } : {}) }
+  const skip = (page - 1) * pageSize
+  const take = limit === null ? pageSize : Math.max(0, Math.min(pageSize, limit - skip))
+
+  const [count, events] = await Promise.all([
+    prisma.recommendationEvent.count({ where }),
+    take > 0
+      ? prisma.recommendationEvent.findMany({
+          where,
+          include: { item: true },
+          orderBy: { createdAt: 'desc' },
+          skip,
+          take,
+        })
+      : Promise.resolve([]),
+  ])
+  const total = limit === null ? count : Math.min(count, limit)
+
+  const items: HistoryEntry[] = events.map((event) => ({
+    id: event.id,
+    categoryId: event.categoryId,
+    createdAt: event.createdAt.toISOString(),
+    recommendation: { ...toRecommendation(event.item), reason: event.reason ?? undefined },
+  }))
+
+  return {
+    items,
+    page,
+    pageSize,
+    total,
+    totalPages: Math.max(1, Math.ceil(total / pageSize)),
+  }
+}
@@ -0,0 +1,131 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { sendMail } from '@/lib/mailer'
+import { getClientIp } from '@/lib/request'
+
+// Slows down password guessing. Failures are counted per email address and
+// per IP address. After a few free attempts each failure doubles the wait
+// before the next one is checked, and at the limit the key is locked out for
+// a fixed time. A successful sign-in clears the email counter; the IP counter
+// only decays, so one working account cannot reset it for a guessing script.
+
+const FREE_ATTEMPTS = 3
+const RESET_AFTER_MS = 60 * 60 * 1000
+const LOCKOUT_MS = 15 * 60 * 1000
+
+const LIMITS = {
+  email: 10,
+  // Higher, since many people can share an office or carrier NAT address
+  ip: 50,
+}
+
+type KeyKind = keyof typeof LIMITS
+
+function backoffMs(failures: number, limit: number) {
+  if (failures >= limit) return LOCKOUT_MS
+  if (failures <= FREE_ATTEMPTS) return 0
+  return Math.min(1000 * 2 ** (failures - FREE_ATTEMPTS), LOCKOUT_MS)
+}
+
+// Addresses are counted however they were typed, so "Victim@x.com" and
+// "victim@x.com" share one counter
+function normalizeEmail(email: string) {
+  return email.trim().toLowerCase()
+}
+
+function keysFor(email: string, ip: string | null) {
+  const keys: { key: string; kind: KeyKind }[] = [{ key: `email:${normalizeEmail(email)}`, kind: 'email' }]
+  if (ip) keys.push({ key: `ip:${ip}`, kind: 'ip' })
+  return keys
+}
+
+// authorize() gets the request headers as a plain object. Without a proxy
+// header there is no IP to count, rather than one shared "unknown" key that
+// would lock everybody out.
+export function signInIp(headers?: Record<string, string | string[] | undefined>) {
+  const normalized = new Headers()
+  for (const [name, value] of Object.entries(headers ?? {})) {
+    if (value !== undefined) normalized.set(name, Array.isArray(value) ? value.join(', ') : value)
+  }
+  const ip = getClientIp(normalized)
+  return ip === 'unknown' ? null : ip
+}
+
+// The time until which sign-in is refused for this email or IP, or null
+export async function loginBlockedUntil(email: string, ip: string | null) {
+  const rows = await prisma.loginThrottle.findMany({
+    where: { key: { in: keysFor(email, ip).map(({ key }) => key) }, lockedUntil: { gt: new Date() } },
+  })
+  const until = rows.map((row) => row.lockedUntil!.getTime())
+  return until.length ? new Date(Math.max(...until)) : null
+}
+
+// Counts are kept with atomic increments: a script firing guesses in parallel
+// passes loginBlockedUntil on every request before any failure is stored, so
+// a read-then-write count would lose most of them
+export async function recordLoginFailure(email: string, ip: string | null) {
+  for (const { key, kind } of keysFor(email, ip)) {
+    const now = new Date()
+
+    // A quiet hour starts the count again. Moving lastFailureAt in the same
+    // update keeps a parallel request from resetting it a second time.
+    await prisma.loginThrottle.updateMany({
+      where: { key, lastFailureAt: { lt: new Date(now.getTime() - RESET_AFTER_MS) } },
+      data: { failures: 0, lastFailureAt: now, lockedUntil: null, notifiedAt: null },
+    })
+
+    const row = await countFailure(key, now)
+    const wait = backoffMs(row.failures, LIMITS[kind])
+    if (wait) {
+      // Never shortens a lock set by a request that counted more failures
+      await prisma.loginThrottle.updateMany({
+        where: { key, OR: [{ lockedUntil: null }, { lockedUntil: { lt: new Date(now.getTime() + wait) } }] },
+        data: { lockedUntil: new Date(now.getTime() + wait) },
+      })
+    }
+
+    if (kind === 'email' && row.failures >= LIMITS.email && !row.notifiedAt) {
+      // Only the request that sets notifiedAt sends the email
+      const claimed = await prisma.loginThrottle.updateMany({ where: { key, notifiedAt: null }, data: { notifiedAt: now } })
+      if (claimed.count > 0) {
+        await notifyLockout(email, new Date(now.getTime() + wait)).catch((error) => console.error('Lockout email error:', error))
+      }
+    }
+  }
+}
+
+async function countFailure(key: string, now: Date) {
+  const update = { failures: { increment: 1 }, lastFailureAt: now }
+  try {
+    return await prisma.loginThrottle.upsert({
+      where: { key },
+      create: { key, failures: 1, lastFailureAt: now },
+      update,
+    })
+  } catch (error) {
+    // Two first failures at once: the other request created the row
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) throw error
+    return prisma.loginThrottle.update({ where: { key }, data: update })
+  }
+}
+
+export async function clearLoginFailures(email: string) {
+  await prisma.loginThrottle.deleteMany({ where: { key: `email:${normalizeEmail(email)}` } })
+}
+
+// Only sent to addresses that have an account
+async function notifyLockout(email: string, lockedUntil: Date) {
+  // Matched the same way as the throttle key, so a guess typed in other
+  // letter case still reaches the owner
+  const [user] = await prisma.$queryRaw<{ email: string }[]>`
+    SELECT "email" FROM "User" WHERE lower("email") = ${normalizeEmail(email)} LIMIT 1
+  `
+  if (!user) return
+
+  const baseUrl = process.env.NEXTAUTH_URL || 'http://localhost:3000'
+  await sendMail({
+    to: user.email,
+    subject: 'Sign-in to your RandomLife account was paused',
+    text: `There were ${LIMITS.email} failed attempts to sign in to your RandomLife account, so we paused password sign-in until ${lockedUntil.toUTCString()}.\n\nIf this was you, wait and try again, or reset your password:\n\n${baseUrl}/forgot-password\n\nIf it was not you, your account is still safe, but consider choosing a stronger password and turning on two-factor authentication in Settings.`,
+  })
+}
@@ -0,0 +1,183 @@
+import type { Account, Profile } from 'next-auth'
+import type { Adapter, AdapterAccount } from 'next-auth/adapters'
+import type { OAuthConfig, Provider } from 'next-auth/providers/index'
+import GitHub from 'next-auth/providers/github'
+import Google from 'next-auth/providers/google'
+import { PrismaAdapter } from '@next-auth/prisma-adapter'
+import { prisma } from '@/lib/prisma'
+
+// OAuth sign-in next to Credentials. Each provider is enabled by setting its
+// credentials in the environment:
+//
+//   GITHUB_ID / GITHUB_SECRET
+//   GOOGLE_CLIENT_ID / GOOGLE_CLIENT_SECRET
+//   WECHAT_APP_ID / WECHAT_APP_SECRET      (WeChat Open Platform website app)
+//
+// allowDangerousEmailAccountLinking lets NextAuth attach a new identity to an
+// existing user with the same email; allowOAuthSignIn below only lets that
+// happen when both sides have verified the address.
+
+interface WeChatProfile extends Record<string, any> {
+  openid: string
+  unionid?: string
+  nickname: string
+  headimgurl: string
+}
+
+// WeChat does not follow OAuth 2 closely: the client id is sent as "appid",
+// the secret as "secret", and the token response carries the openid that the
+// userinfo endpoint needs. It also never shares an email address, so users get
+// a placeholder on the reserved .invalid domain and are never linked by email.
+export function WeChat(options: { clientId: string; clientSecret: string }): OAuthConfig<WeChatProfile> {
+  return {
+    id: 'wechat',
+    name: 'WeChat',
+    type: 'oauth',
+    authorization: {
+      url: 'https://open.weixin.qq.com/connect/qrconnect',
+      params: { appid: options.clientId, scope: 'snsapi_login', response_type: 'code' },
+    },
+    token: {
+      url: 'https://api.weixin.qq.com/sns/oauth2/access_token',
+      async request({ params, checks }) {
+        if (checks.state && params.state !== checks.state) throw new Error('WeChat state mismatch')
+
+        const url = new URL('https://api.weixin.qq.com/sns/oauth2/access_token')
+        url.search = new URLSearchParams({
+          appid: options.clientId,
+          secret: options.clientSecret,
+          code: params.code ?? '',
+          grant_type: 'authorization_code',
+        }).toString()
+
+        const data = await (await fetch(url)).json()
+        if (data.errcode) throw new Error(`WeChat token error ${data.errcode}: ${data.errmsg}`)
+        return { tokens: { ...data, token_type: 'bearer' } }
+      },
+    },
+    userinfo: {
+      url: 'https://api.weixin.qq.com/sns/userinfo',
+      async request({ tokens }) {
+        const url = new URL('https://api.weixin.qq.com/sns/userinfo')
+        url.search = new URLSearchParams({
+          access_token: tokens.access_token ?? '',
+          openid: String(tokens.openid),
+        }).toString()
+
+        const data = await (await fetch(url)).json()
+        if (data.errcode) throw new Error(`WeChat userinfo error ${data.errcode}: ${data.errmsg}`)
+        return data
+      },
+    },
+    profile(profile) {
+      // unionid is stable across all apps of the same WeChat developer account
+      const id = profile.unionid ?? profile.openid
+      return {
+        id,
+        name: profile.nickname,
+        email: `wechat-${id}@users.invalid`,
+        image: profile.headimgurl || null,
+      }
+    },
+    options,
+  }
+}
+
+export function oauthProviders(): Provider[] {
+  const providers: Provider[] = []
+
+  if (process.env.GITHUB_ID && process.env.GITHUB_SECRET) {
+    providers.push(
+      GitHub({
+        clientId: process.env.GITHUB_ID,
+        clientSecret: process.env.GITHUB_SECRET,
+        allowDangerousEmailAccountLinking: true,
+        // The stock provider picks the primary address without saying whether
+        // GitHub has verified it, which linking needs to know
+        userinfo: {
+          url: 'https://api.github.com/user',
+          async request({ client, tokens }) {
+            const profile = await client.userinfo(tokens.access_token!)
+            const res = await fetch('https://api.github.com/user/emails', {
+              headers: { Authorization: `token ${tokens.access_token}` },
+            })
+            if (res.ok) {
+              const emails: { email: string; primary: boolean; verified: boolean }[] = await res.json()
+              const primary = emails.find((e) => e.primary) ?? emails[0]
+              if (primary) {
+                profile.email = primary.email
+                profile.email_verified = primary.verified
+              }
+            }
+            return profile
+          },
+        },
+      })
+    )
+  }
+
+  if (process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET) {
+    providers.push(
+      Google({
+        clientId: process.env.GOOGLE_CLIENT_ID,
+        clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+        allowDangerousEmailAccountLinking: true,
+      })
+    )
+  }
+
+  if (process.env.WECHAT_APP_ID && process.env.WECHAT_APP_SECRET) {
+    providers.push(WeChat({ clientId: process.env.WECHAT_APP_ID, clientSecret: process.env.WECHAT_APP_SECRET }))
+  }
+
+  return providers
+}
+
+// Whether the provider vouches that the person owns the email in the profile
+export function providerVerifiedEmail(provider: string, profile?: Profile) {
+  switch (provider) {
+    case 'github':
+    case 'google':
+      return (profile as any)?.email_verified === true
+    default:
+      return false
+  }
+}
+
+// signIn callback for OAuth. Returning a path sends the user to the login page
+// with that error instead of signing in.
+export async function allowOAuthSignIn(account: Account, profile?: Profile) {
+  const linked = await prisma.account.findUnique({
+    where: { provider_providerAccountId: { provider: account.provider, providerAccountId: account.providerAccountId } },
+    include: { user: true },
+  })
+  if (linked) return !linked.user.disabledAt || '/login?error=AccountDisabled'
+
+  const email = profile?.email
+  const existing = email ? await prisma.user.findUnique({ where: { email } }) : null
+  if (!existing) {
+    // A new account takes the profile's address, so the provider has to vouch
+    // for it. Otherwise someone could claim an address before its owner
+    // signs up, and keep their identity linked after the owner resets the
+    // password. WeChat users get a placeholder on .invalid, which nobody owns.
+    if (account.provider === 'wechat' || providerVerifiedEmail(account.provider, profile)) return true
+    return '/login?error=OAuthEmailNotVerified'
+  }
+
+  if (existing.disabledAt) return '/login?error=AccountDisabled'
+  // Joining someone else's account on an unproven address would hand it over
+  if (!existing.emailVerified || !providerVerifiedEmail(account.provider, profile)) {
+    return '/login?error=OAuthAccountNotLinked'
+  }
+  return true
+}
+
+// Provider-specific token fields (WeChat's openid and unionid) have no column
+// on Account, so they are dropped before the adapter stores the account
+export function authAdapter(): Adapter {
+  const adapter = PrismaAdapter(prisma)
+  return {
+    ...adapter,
+    linkAccount: ({ openid: _openid, unionid: _unionid, ...account }: AdapterAccount) => adapter.linkAccount!(account),
+  }
+}
@@ -0,0 +1,72 @@
+import bcrypt from 'bcryptjs'
+import { prisma } from '@/lib/prisma'
+import { sendMail } from '@/lib/mailer'
+import { generateToken, hashToken } from '@/lib/tokens'
+import { revokeUserSessions } from '@/lib/user-sessions'
+
+const TOKEN_TTL_MS = 60 * 60 * 1000
+const REQUEST_INTERVAL_MS = 60 * 1000
+
+export class PasswordResetError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message)
+    this.name = 'PasswordResetError'
+  }
+}
+
+// Does nothing for unknown or disabled accounts, and the caller answers the
+// same either way, so the form cannot be used to find out who has an account
+export async function requestPasswordReset(email: string, baseUrl: string) {
+  const user = await prisma.user.findUnique({ where: { email } })
+  if (!user || user.disabledAt) return
+
+  // At most one email a minute per account
+  const recent = await prisma.passwordResetToken.findFirst({
+    where: { userId: user.id, createdAt: { gt: new Date(Date.now() - REQUEST_INTERVAL_MS) } },
+  })
+  if (recent) return
+
+  const { token, hash } = generateToken()
+  await prisma.$transaction([
+    // Only the latest link works
+    prisma.passwordResetToken.deleteMany({ where: { userId: user.id, usedAt: null } }),
+    prisma.passwordResetToken.create({
+      data: { userId: user.id, tokenHash: hash, expires: new Date(Date.now() + TOKEN_TTL_MS) },
+    }),
+  ])
+
+  const link = `${baseUrl}/reset-password?token=${token}`
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your RandomLife password',
+    text: `Someone asked to reset the password for your RandomLife account.\n\nChoose a new password here:\n\n${link}\n\nThe link expires in one hour and can be used once. If it was not you, ignore this email; your password has not changed.`,
+  })
+}
+
+// Sets the new password and bumps sessionVersion, which signs the account
+// out on every device that still holds an older session
+export async function resetPassword(token: string, password: string) {
+  const record = await prisma.passwordResetToken.findUnique({ where: { tokenHash: hashToken(token) } })
+  if (!record || record.usedAt) throw new PasswordResetError('This link is invalid or has already been used')
+  if (record.expires < new Date()) throw new PasswordResetError('This link has expired. Please request a new one.')
+
+  // Claim the token first so two submissions of the same link cannot both succeed
+  const claimed = await prisma.passwordResetToken.updateMany({
+    where: { id: record.id, usedAt: null },
+    data: { usedAt: new Date() },
+  })
+  if (claimed.count === 0) throw new PasswordResetError('This link is invalid or has already been used')
+
+  const user = await prisma.user.update({
+    where: { id: record.userId },
+    data: { password: await bcrypt.hash(password, 10), sessionVersion: { increment: 1 } },
+  })
+  await revokeUserSessions(user.id)
+
+  // Following the emailed link also proves the address, so an unverified
+  // account can sign in afterwards
+  if (!user.emailVerified) {
+    await prisma.user.update({ where: { id: user.id }, data: { emailVerified: new Date() } })
+  }
+  return user
+}
@@ -1,16 +1,13 @@
-import paypal from '@paypal/checkout-server-sdk'
-
-// PayPal environment setup
-function environment() {
-  const clientId = process.env.PAYPAL_CLIENT_ID || 'demo_client_id'
-  const clientSecret = process.env.PAYPAL_CLIENT_SECRET || 'demo_client_secret'
-
-  // Use sandbox for demo
-  return new paypal.core.SandboxEnvironment(clientId, clientSecret)
+// PayPal Subscriptions REST API client. The checkout SDK has no subscriptions
+// support, so this talks to the REST endpoints directly.
+//
+// PAYPAL_API_BASE overrides the API host, e.g. http://localhost:4010 for the
+// local stub in scripts/paypal-stub.ts.
+function apiBase() {
+  if (process.env.PAYPAL_API_BASE) return process.env.PAYPAL_API_BASE.replace(/\/$/, '')
+  return process.env.PAYPAL_MODE === 'live' ? 'https://api-m.paypal.com' : 'https://api-m.sandbox.paypal.com'
 }
 
-export const paypalClient = new paypal.core.PayPalHttpClient(environment())
-
 export const PAYPAL_PLANS = {
   pro: {
     planId: process.env.PAYPAL_PRO_PLAN_ID || 'P-demo-pro-plan',
@@ -23,3 +20,186 @@ export const PAYPAL_PLANS = {
     currency: 'USD',
   },
 }
+
+// Demo mode skips PayPal entirely and simulates the subscription. It must be enabled explicitly.
+export function isPayPalDemoMode() {
+  return process.env.PAYPAL_DEMO_MODE === 'true'
+}
+
+export function tierForPlanId(planId: string | null | undefined) {
+  if (planId === PAYPAL_PLANS.pro.planId) return 'pro'
+  if (planId === PAYPAL_PLANS.enterprise.planId) return 'enterprise'
+  return null
+}
+
+export class PayPalError extends Error {
+  constructor(message: string, public status: number, public details?: unknown) {
+    super(message)
+    this.name = 'PayPalError'
+  }
+}
+
+let cachedToken: { value: string; expiresAt: number } | null = null
+
+async function getAccessToken() {
+  if (cachedToken && cachedToken.expiresAt > Date.now()) return cachedToken.value
+
+  const clientId = process.env.PAYPAL_CLIENT_ID || 'demo_client_id'
+  const clientSecret = process.env.PAYPAL_CLIENT_SECRET || 'demo_client_secret'
+
+  const response = await fetch(`${apiBase()}/v1/oauth2/token`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: 'grant_type=client_credentials',
+  })
+  const data = await response.json().catch(() => null)
+  if (!response.ok || !data?.access_token) {
+    throw new PayPalError('Failed to obtain PayPal access token', response.status, data)
+  }
+
+  // Refresh a minute early
+  cachedToken = { value: data.access_token, expiresAt: Date.now() + (data.expires_in - 60) * 1000 }
+  return cachedToken.value
+}
+
+// A string body is sent as it is and must already be JSON
+export async function paypalRequest<T = any>(path: string, init: { method?: string; body?: unknown } = {}): Promise<T> {
+  const response = await fetch(`${apiBase()}${path}`, {
+    method: init.method ?? 'GET',
+    headers: {
+      Authorization: `Bearer ${await getAccessToken()}`,
+      'Content-Type': 'application/json',
+      Prefer: 'return=representation',
+    },
+    body: init.body === undefined || typeof init.body === 'string' ? init.body : JSON.stringify(init.body),
+  })
+
+  // Several endpoints (cancel, suspend) answer 204 No Content
+  if (response.status === 204) return undefined as T
+
+  const data = await response.json().catch(() => null)
+  if (!response.ok) {
+    throw new PayPalError(`PayPal ${init.method ?? 'GET'} ${path} failed`, response.status, data)
+  }
+  return data as T
+}
+
+export interface PayPalLink {
+  href: string
+  rel: string
+  method?: string
+}
+
+export interface PayPalSubscription {
+  id: string
+  status: 'APPROVAL_PENDING' | 'APPROVED' | 'ACTIVE' | 'SUSPENDED' | 'CANCELLED' | 'EXPIRED'
+  plan_id: string
+  custom_id?: string
+  billing_info?: {
+    next_billing_time?: string
+    last_payment?: { amount: { currency_code: string; value: string }; time: string }
+    last_failed_payment?: { amount: { currency_code: string; value: string }; time: string }
+  }
+  links?: PayPalLink[]
+}
+
+// custom_id carries our user id and requested tier through the approval round trip
+export function encodeCustomId(userId: string, tier: string) {
+  return `${userId}:${tier}`
+}
+
+export function decodeCustomId(customId: string | undefined) {
+  const [userId, tier] = (customId ?? '').split(':')
+  return { userId: userId || null, tier: tier || null }
+}
+
+export async function createSubscription(options: {
+  tier: 'pro' | 'enterprise'
+  userId: string
+  email: string
+  returnUrl: string
+  cancelUrl: string
+}) {
+  const subscription = await paypalRequest<PayPalSubscription>('/v1/billing/subscriptions', {
+    method: 'POST',
+    body: {
+      plan_id: PAYPAL_PLANS[options.tier].planId,
+      custom_id: encodeCustomId(options.userId, options.tier),
+      subscriber: { email_address: options.email },
+      application_context: {
+        brand_name: 'RandomLife',
+        user_action: 'SUBSCRIBE_NOW',
+        shipping_preference: 'NO_SHIPPING',
+        return_url: options.returnUrl,
+        cancel_url: options.cancelUrl,
+      },
+    },
+  })
+
+  const approvalUrl = subscription.links?.find((link) => link.rel === 'approve')?.href
+  if (!approvalUrl) {
+    throw new PayPalError(`Subscription ${subscription.id} has no approval link`, 502, subscription)
+  }
+  return { id: subscription.id, approvalUrl }
+}
+
+export async function getSubscription(subscriptionId: string) {
+  return paypalRequest<PayPalSubscription>(`/v1/billing/subscriptions/${encodeURIComponent(subscriptionId)}`)
+}
+
+export async function cancelSubscription(subscriptionId: string, reason: string) {
+  await paypalRequest(`/v1/billing/subscriptions/${encodeURIComponent(subscriptionId)}/cancel`, {
+    method: 'POST',
+    body: { reason },
+  })
+}
+
+// Moves a subscription to another plan. The new price applies from the next
+// billing cycle; PayPal may ask the buyer to approve it first, in which case
+// an approval link is returned.
+export async function reviseSubscription(
+  subscriptionId: string,
+  options: { tier: 'pro' | 'enterprise'; returnUrl: string; cancelUrl: string }
+) {
+  const revision = await paypalRequest<{ plan_id: string; links?: PayPalLink[] }>(
+    `/v1/billing/subscriptions/${encodeURIComponent(subscriptionId)}/revise`,
+    {
+      method: 'POST',
+      body: {
+        plan_id: PAYPAL_PLANS[options.tier].planId,
+        application_context: {
+          brand_name: 'RandomLife',
+          shipping_preference: 'NO_SHIPPING',
+          return_url: options.returnUrl,
+          cancel_url: options.cancelUrl,
+        },
+      },
+    }
+  )
+  return { approvalUrl: revision.links?.find((link) => link.rel === 'approve')?.href ?? null }
+}
+
+// Asks PayPal whether a webhook delivery really came from PayPal for our webhook
+// id. The signature covers the body exactly as delivered, so rawBody is spliced
+// into the request as it is; re-serializing a parsed copy can change it.
+export async function verifyWebhookSignature(headers: Headers, rawBody: string) {
+  const webhookId = process.env.PAYPAL_WEBHOOK_ID
+  if (!webhookId) throw new Error('PAYPAL_WEBHOOK_ID is not set')
+
+  const fields = JSON.stringify({
+    auth_algo: headers.get('paypal-auth-algo'),
+    cert_url: headers.get('paypal-cert-url'),
+    transmission_id: headers.get('paypal-transmission-id'),
+    transmission_sig: headers.get('paypal-transmission-sig'),
+    transmission_time: headers.get('paypal-transmission-time'),
+    webhook_id: webhookId,
+  })
+  const result = await paypalRequest<{ verification_status: string }>('/v1/notifications/verify-webhook-signature', {
+    method: 'POST',
+    body: `${fields.slice(0, -1)},"webhook_event":${rawBody}}`,
+  })
+  return result.verification_status === 'SUCCESS'
+}
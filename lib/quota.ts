@@ -0,0 +1,150 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import type { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getClientIp } from '@/lib/request'
+import { getEntitlements } from '@/lib/entitlements'
+
+export const DEVICE_COOKIE = 'rl_device'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface QuotaSubject {
+  // Every key is charged and the most used one decides
+  keys: string[]
+  tier: string
+  // Set when an anonymous visitor has no device cookie yet
+  newDeviceId?: string
+}
+
+export interface QuotaStatus {
+  limit: number | null
+  used: number
+  remaining: number | null
+  resetAt: string
+}
+
+export interface QuotaWindow {
+  day: string
+  resetAt: Date
+}
+
+function deviceSignature(deviceId: string) {
+  const secret = process.env.NEXTAUTH_SECRET
+  if (!secret) throw new Error('NEXTAUTH_SECRET must be set')
+  return createHmac('sha256', secret).update(`device:${deviceId}`).digest('base64url')
+}
+
+// The cookie is "<id>.<signature>", so a visitor cannot mint fresh device ids
+// for a fresh quota; anything that does not verify counts against the IP
+function verifiedDeviceId(value: string | undefined) {
+  const [deviceId, signature] = value?.split('.') ?? []
+  if (!deviceId || !signature) return null
+  const expected = Buffer.from(deviceSignature(deviceId))
+  const given = Buffer.from(signature)
+  return expected.length === given.length && timingSafeEqual(expected, given) ? deviceId : null
+}
+
+// Signed-in users are counted per account. Anonymous visitors are counted per
+// device cookie and per IP together, so clearing cookies for a new device id
+// does not reset the limit; a visitor without a valid cookie is given one.
+export function resolveSubject(request: NextRequest, userId?: string, tier = 'free'): QuotaSubject {
+  if (userId) return { keys: [`user:${userId}`], tier }
+
+  const ipKey = `ip:${getClientIp(request.headers)}`
+  const deviceId = verifiedDeviceId(request.cookies.get(DEVICE_COOKIE)?.value)
+  if (deviceId) return { keys: [`device:${deviceId}`, ipKey], tier: 'free' }
+
+  return { keys: [ipKey], tier: 'free', newDeviceId: crypto.randomUUID() }
+}
+
+export function applyDeviceCookie(response: NextResponse, subject: QuotaSubject) {
+  if (subject.newDeviceId) {
+    response.cookies.set(DEVICE_COOKIE, `${subject.newDeviceId}.${deviceSignature(subject.newDeviceId)}`, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: 365 * 24 * 60 * 60,
+    })
+  }
+  return response
+}
+
+// The current quota day and the UTC instant of the next midnight. Days follow
+// the server's time zone (set TZ, e.g. Asia/Shanghai), not the browser's: an
+// offset chosen by the client could move midnight and open an extra window.
+// tzOffset is in minutes as returned by Date#getTimezoneOffset() (UTC+8 is -480).
+export function quotaWindow(now: Date, tzOffset = now.getTimezoneOffset()): QuotaWindow {
+  const localMs = now.getTime() - tzOffset * 60 * 1000
+  const localDayStart = Math.floor(localMs / DAY_MS) * DAY_MS
+  return {
+    day: new Date(localDayStart).toISOString().slice(0, 10),
+    resetAt: new Date(localDayStart + DAY_MS + tzOffset * 60 * 1000),
+  }
+}
+
+function toStatus(limit: number | null, used: number, window: QuotaWindow): QuotaStatus {
+  return {
+    limit,
+    used,
+    remaining: limit === null ? null : Math.max(0, limit - used),
+    resetAt: window.resetAt.toISOString(),
+  }
+}
+
+function limitFor(tier: string) {
+  return getEntitlements(tier).dailyRecommendations
+}
+
+export async function getQuota(subject: QuotaSubject, window: QuotaWindow): Promise<QuotaStatus> {
+  const usage = await prisma.dailyUsage.findMany({
+    where: { subjectKey: { in: subject.keys }, day: window.day },
+  })
+  return toStatus(limitFor(subject.tier), Math.max(0, ...usage.map((row) => row.count)), window)
+}
+
+// Counts one recommendation against each of the subject's keys. The
+// conditional increment keeps concurrent requests from going over the limit;
+// if any key is exhausted, the keys already charged are given back.
+export async function consumeQuota(subject: QuotaSubject, window: QuotaWindow) {
+  const limit = limitFor(subject.tier)
+  const charged: string[] = []
+
+  for (const key of subject.keys) {
+    await prisma.dailyUsage.upsert({
+      where: { subjectKey_day: { subjectKey: key, day: window.day } },
+      update: {},
+      create: { subjectKey: key, day: window.day },
+    })
+
+    const { count: updated } = await prisma.dailyUsage.updateMany({
+      where: {
+        subjectKey: key,
+        day: window.day,
+        ...(limit === null ? {} : { count: { lt: limit } }),
+      },
+      data: { count: { increment: 1 } },
+    })
+    if (updated === 0) break
+    charged.push(key)
+  }
+
+  const allowed = charged.length === subject.keys.length
+  if (!allowed && charged.length) {
+    await prisma.dailyUsage.updateMany({
+      where: { subjectKey: { in: charged }, day: window.day },
+      data: { count: { decrement: 1 } },
+    })
+  }
+
+  const quota = await getQuota(subject, window)
+  return { allowed, quota }
+}
+
+export function quotaHeaders(quota: QuotaStatus): Record<string, string> {
+  return {
+    'X-Quota-Limit': quota.limit === null ? 'unlimited' : String(quota.limit),
+    'X-Quota-Remaining': quota.remaining === null ? 'unlimited' : String(quota.remaining),
+    'X-Quota-Reset': quota.resetAt,
+  }
+}
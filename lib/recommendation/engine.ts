@@ -0,0 +1,114 @@
+import type { RecommendationItem } from '@prisma/client'
+import { parseTags } from '@/lib/catalog'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type SignalKind = 'pick' | 'like' | 'dislike' | 'skip'
+
+// Something the user did with a catalog item in the past
+export interface Signal {
+  kind: SignalKind
+  itemId: string
+  tags: string[]
+  createdAt: Date
+}
+
+export interface ScoringContext {
+  now: Date
+  signals: Signal[]
+}
+
+export interface Candidate {
+  item: RecommendationItem
+  tags: string[]
+}
+
+// A scorer's opinion of one candidate. `reason` explains a positive score and
+// is only shown when this scorer contributed the most to the chosen item.
+export interface ScoreResult {
+  score: number
+  reason?: string
+}
+
+export interface Scorer {
+  name: string
+  score(candidate: Candidate, context: ScoringContext): ScoreResult
+}
+
+export interface EngineOptions {
+  // Higher values flatten the distribution, lower values always pick the top score
+  temperature?: number
+  // Shown when no scorer explains the pick, depending on whether the user has any history
+  fallbackReason?: string
+  explorationReason?: string
+  random?: () => number
+}
+
+export interface RankedCandidate {
+  item: RecommendationItem
+  score: number
+  reason: string
+  contributions: Record<string, number>
+}
+
+export const FALLBACK_REASON = '还没有足够的偏好数据，先随机为您挑选'
+export const EXPLORATION_REASON = '换换口味，为您探索新内容'
+
+// Exponential decay: a signal `halfLifeDays` old counts half as much as one from today
+export function recencyWeight(createdAt: Date, now: Date, halfLifeDays: number) {
+  const ageDays = Math.max(0, now.getTime() - createdAt.getTime()) / DAY_MS
+  return Math.pow(0.5, ageDays / halfLifeDays)
+}
+
+export function createEngine(scorers: Scorer[], options: EngineOptions = {}) {
+  const {
+    temperature = 1,
+    fallbackReason = FALLBACK_REASON,
+    explorationReason = EXPLORATION_REASON,
+    random = Math.random,
+  } = options
+
+  function rank(items: RecommendationItem[], context: ScoringContext): RankedCandidate[] {
+    const defaultReason = context.signals.length > 0 ? explorationReason : fallbackReason
+
+    return items
+      .map((item) => {
+        const candidate = { item, tags: parseTags(item.tags) }
+        const contributions: Record<string, number> = {}
+        let score = 0
+        let best: ScoreResult | null = null
+
+        for (const scorer of scorers) {
+          const result = scorer.score(candidate, context)
+          contributions[scorer.name] = result.score
+          score += result.score
+          if (result.reason && result.score > 0 && (!best || result.score > best.score)) {
+            best = result
+          }
+        }
+
+        return { item, score, reason: best?.reason ?? defaultReason, contributions }
+      })
+      .sort((a, b) => b.score - a.score)
+  }
+
+  // Samples one candidate with probability proportional to exp(score / temperature),
+  // so strong preferences win most of the time without making every shake identical.
+  function pick(items: RecommendationItem[], context: ScoringContext): RankedCandidate | null {
+    const ranked = rank(items, context)
+    if (ranked.length === 0) return null
+
+    const top = ranked[0].score
+    const weights = ranked.map((candidate) => Math.exp((candidate.score - top) / temperature))
+    const total = weights.reduce((sum, weight) => sum + weight, 0)
+
+    let threshold = random() * total
+    for (let i = 0; i < ranked.length; i++) {
+      threshold -= weights[i]
+      if (threshold <= 0) return ranked[i]
+    }
+    return ranked[ranked.length - 1]
+  }
+
+  return { rank, pick }
+}
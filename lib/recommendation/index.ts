@@ -0,0 +1,6 @@
+import { createEngine } from '@/lib/recommendation/engine'
+import { recentRepeatScorer, tagAffinityScorer } from '@/lib/recommendation/scorers'
+
+// Default ranking used by POST /api/recommend/[category] for every category.
+// Add or reweight scorers here; per-category engines can be built with createEngine.
+export const recommendationEngine = createEngine([tagAffinityScorer(), recentRepeatScorer()])
@@ -0,0 +1,87 @@
+import { recencyWeight, type Scorer, type ScoringContext, type SignalKind } from '@/lib/recommendation/engine'
+
+interface TagStats {
+  affinity: number
+  counts: Record<SignalKind, number>
+}
+
+const SIGNAL_WEIGHTS: Record<SignalKind, number> = {
+  pick: 1,
+  like: 3,
+  dislike: -4,
+  skip: -1.5,
+}
+
+function emptyCounts(): Record<SignalKind, number> {
+  return { pick: 0, like: 0, dislike: 0, skip: 0 }
+}
+
+// Rewards items sharing content tags with what the user picked or liked recently,
+// and penalises tags they disliked or skipped.
+export function tagAffinityScorer({ weight = 1, halfLifeDays = 14 } = {}): Scorer {
+  const cache = new WeakMap<ScoringContext, Map<string, TagStats>>()
+
+  function statsFor(context: ScoringContext) {
+    let stats = cache.get(context)
+    if (stats) return stats
+
+    stats = new Map()
+    for (const signal of context.signals) {
+      const decayed = SIGNAL_WEIGHTS[signal.kind] * recencyWeight(signal.createdAt, context.now, halfLifeDays)
+      for (const tag of signal.tags) {
+        const entry = stats.get(tag) ?? { affinity: 0, counts: emptyCounts() }
+        entry.affinity += decayed
+        entry.counts[signal.kind] += 1
+        stats.set(tag, entry)
+      }
+    }
+    cache.set(context, stats)
+    return stats
+  }
+
+  return {
+    name: 'tagAffinity',
+    score(candidate, context) {
+      const stats = statsFor(context)
+      let score = 0
+      let bestTag: string | null = null
+      let bestAffinity = 0
+
+      for (const tag of candidate.tags) {
+        const entry = stats.get(tag)
+        if (!entry) continue
+        score += entry.affinity
+        if (entry.affinity > bestAffinity) {
+          bestAffinity = entry.affinity
+          bestTag = tag
+        }
+      }
+
+      if (!bestTag) return { score: score * weight }
+
+      const { counts } = stats.get(bestTag)!
+      const reason =
+        counts.like > 0
+          ? `您赞过${counts.like}次「${bestTag}」相关推荐`
+          : `基于您最近${counts.pick}次${bestTag}选择`
+
+      return { score: score * weight, reason }
+    },
+  }
+}
+
+// Keeps the same item from coming up shake after shake.
+export function recentRepeatScorer({ weight = 2, halfLifeDays = 1 } = {}): Scorer {
+  return {
+    name: 'recentRepeat',
+    score(candidate, context) {
+      let penalty = 0
+      for (const signal of context.signals) {
+        if (signal.kind === 'pick' && signal.itemId === candidate.item.id) {
+          penalty += recencyWeight(signal.createdAt, context.now, halfLifeDays)
+        }
+      }
+      return { score: -penalty * weight }
+    },
+  }
+}
@@ -0,0 +1,43 @@
+import { prisma } from '@/lib/prisma'
+import { parseTags } from '@/lib/catalog'
+import type { Signal, SignalKind } from '@/lib/recommendation/engine'
+
+// How far back we look when building a user's preference profile
+const MAX_SIGNALS = 100
+
+export async function loadSignals(userId: string, categoryId: string): Promise<Signal[]> {
+  const [events, feedback] = await Promise.all([
+    prisma.recommendationEvent.findMany({
+      where: { userId, categoryId },
+      include: { item: { select: { tags: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_SIGNALS,
+    }),
+    prisma.feedback.findMany({
+      where: { userId, categoryId },
+      include: { item: { select: { tags: true } } },
+      orderBy: { updatedAt: 'desc' },
+      take: MAX_SIGNALS,
+    }),
+  ])
+
+  const picks: Signal[] = events.map((event) => ({
+    kind: 'pick',
+    itemId: event.itemId,
+    tags: parseTags(event.item.tags),
+    createdAt: event.createdAt,
+  }))
+
+  const opinions: Signal[] = feedback.map((entry) => ({
+    kind: entry.action as SignalKind,
+    itemId: entry.itemId,
+    tags: parseTags(entry.item.tags),
+    createdAt: entry.updatedAt,
+  }))
+
+  return [...picks, ...opinions]
+}
+
+export function dislikedItemIds(signals: Signal[]) {
+  return new Set(signals.filter((signal) => signal.kind === 'dislike').map((signal) => signal.itemId))
+}
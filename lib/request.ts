@@ -0,0 +1,6 @@
+// Best-effort client IP behind Vercel / reverse proxies
+export function getClientIp(headers: Headers) {
+  const forwarded = headers.get('x-forwarded-for')
+  if (forwarded) return forwarded.split(',')[0].trim()
+  return headers.get('x-real-ip') ?? 'unknown'
+}
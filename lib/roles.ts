@@ -0,0 +1,40 @@
+// Staff roles, separate from the paid tier. Kept free of server-only imports
+// so middleware can use it.
+
+export const ROLES = ['user', 'support', 'admin'] as const
+export type Role = (typeof ROLES)[number]
+
+const ROLE_RANK: Record<Role, number> = {
+  user: 0,
+  support: 1,
+  admin: 2,
+}
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value)
+}
+
+// Unknown or missing roles are treated as a regular user
+export function normalizeRole(role: unknown): Role {
+  return isRole(role) ? role : 'user'
+}
+
+// Each role can do everything the roles below it can
+export function hasRole(role: unknown, minimum: Role) {
+  return ROLE_RANK[normalizeRole(role)] >= ROLE_RANK[minimum]
+}
+
+// Staff may only act on accounts strictly below their own role, so support
+// cannot touch staff and one admin cannot take over another
+export function outranks(role: unknown, other: unknown) {
+  return ROLE_RANK[normalizeRole(role)] > ROLE_RANK[normalizeRole(other)]
+}
+
+// Minimum role for each /admin section; anything not listed needs admin
+const ADMIN_SECTIONS: { prefix: string; role: Role }[] = [{ prefix: '/admin/users', role: 'support' }]
+
+export function requiredRoleForPath(pathname: string): Role {
+  // The /admin landing page only forwards staff to the first section they can open
+  if (pathname === '/admin' || pathname === '/admin/') return 'support'
+  return ADMIN_SECTIONS.find((section) => pathname.startsWith(section.prefix))?.role ?? 'admin'
+}
@@ -0,0 +1,70 @@
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises'
+import path from 'path'
+import { randomUUID } from 'crypto'
+
+// Where uploaded files live. Only the local disk adapter exists today; another
+// backend (S3, R2, ...) only needs to implement StorageAdapter and be picked
+// by STORAGE_DRIVER.
+
+export interface StorageAdapter {
+  // Stores the file under a new random key and returns its public URL
+  save(folder: string, file: { data: Buffer; extension: string }): Promise<{ key: string; url: string }>
+  read(key: string): Promise<Buffer | null>
+  // Removing a key that does not exist is not an error
+  delete(key: string): Promise<void>
+}
+
+export const IMAGE_TYPES: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+}
+
+export const MAX_IMAGE_BYTES = 2 * 1024 * 1024
+
+// folder/uuid.ext, nothing else, so keys can never escape the upload directory
+const KEY_PATTERN = /^[a-z0-9-]+\/[0-9a-f-]{36}\.(png|jpg|webp|gif)$/
+
+export function isValidKey(key: string) {
+  return KEY_PATTERN.test(key)
+}
+
+// Next.js only serves files that were in public/ at build time, so uploads are
+// kept outside it and served by app/api/uploads/[...key]/route.ts
+export function localStorageAdapter(root = process.env.UPLOAD_DIR || path.join(process.cwd(), 'uploads')): StorageAdapter {
+  return {
+    async save(folder, file) {
+      const key = `${folder}/${randomUUID()}.${file.extension}`
+      await mkdir(path.join(root, folder), { recursive: true })
+      await writeFile(path.join(root, key), file.data)
+      return { key, url: `/api/uploads/${key}` }
+    },
+
+    async read(key) {
+      if (!isValidKey(key)) return null
+      try {
+        return await readFile(path.join(root, key))
+      } catch {
+        return null
+      }
+    },
+
+    async delete(key) {
+      if (!isValidKey(key)) return
+      await unlink(path.join(root, key)).catch((error) => {
+        if (error.code !== 'ENOENT') throw error
+      })
+    },
+  }
+}
+
+export function getStorage(): StorageAdapter {
+  const driver = process.env.STORAGE_DRIVER || 'local'
+  switch (driver) {
+    case 'local':
+      return localStorageAdapter()
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}"`)
+  }
+}
@@ -1,10 +1,32 @@
 import Stripe from 'stripe'
+import { prisma } from '@/lib/prisma'
+
+// STRIPE_API_BASE points the client at another API server, e.g. a local
+// stripe-mock (http://localhost:12111) for end-to-end testing without a live account.
+function apiServer() {
+  const base = process.env.STRIPE_API_BASE
+  if (!base) return {}
+
+  const url = new URL(base)
+  const protocol = url.protocol === 'http:' ? 'http' : 'https'
+  return {
+    host: url.hostname,
+    port: url.port || (protocol === 'http' ? '80' : '443'),
+    protocol: protocol as 'http' | 'https',
+  }
+}
 
 // Initialize Stripe (use test key for demo)
 export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || 'sk_test_demo_key', {
   apiVersion: '2024-12-18.acacia',
+  ...apiServer(),
 })
 
+// Demo mode skips Stripe entirely and simulates checkout. It must be enabled explicitly.
+export function isStripeDemoMode() {
+  return process.env.STRIPE_DEMO_MODE === 'true'
+}
+
 export const STRIPE_PLANS = {
   pro: {
     priceId: process.env.STRIPE_PRO_PRICE_ID || 'price_pro_demo',
@@ -19,3 +41,27 @@ export const STRIPE_PLANS = {
     interval: 'month',
   },
 }
+
+export function tierForPriceId(priceId: string | null | undefined) {
+  if (priceId === STRIPE_PLANS.pro.priceId) return 'pro'
+  if (priceId === STRIPE_PLANS.enterprise.priceId) return 'enterprise'
+  return null
+}
+
+// Returns the user's Stripe customer, creating and remembering one on first use
+export async function getOrCreateStripeCustomer(user: { id: string; email: string; name?: string | null; stripeCustomerId?: string | null }) {
+  if (user.stripeCustomerId) return user.stripeCustomerId
+
+  const customer = await stripe.customers.create({
+    email: user.email,
+    name: user.name ?? undefined,
+    metadata: { userId: user.id },
+  })
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { stripeCustomerId: customer.id },
+  })
+
+  return customer.id
+}
@@ -0,0 +1,13 @@
+import { createHash, randomBytes } from 'crypto'
+
+// Tokens that are emailed to users are only ever stored hashed, so a leaked
+// database cannot be used to verify addresses or reset passwords
+
+export function hashToken(token: string) {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+export function generateToken() {
+  const token = randomBytes(32).toString('base64url')
+  return { token, hash: hashToken(token) }
+}
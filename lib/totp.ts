@@ -0,0 +1,62 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+
+// RFC 6238 time-based one-time passwords with the parameters every
+// authenticator app supports: SHA-1, 6 digits, 30 second steps.
+
+const STEP_SECONDS = 30
+const DIGITS = 6
+const BASE32 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+function base32Encode(buffer: Buffer) {
+  let bits = ''
+  for (const byte of buffer) bits += byte.toString(2).padStart(8, '0')
+  let output = ''
+  for (let i = 0; i < bits.length; i += 5) output += BASE32[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)]
+  return output
+}
+
+function base32Decode(input: string) {
+  let bits = ''
+  for (const char of input.replace(/=+$/, '').toUpperCase()) {
+    const value = BASE32.indexOf(char)
+    if (value === -1) throw new Error('Invalid base32 secret')
+    bits += value.toString(2).padStart(5, '0')
+  }
+  const bytes = []
+  for (let i = 0; i + 8 <= bits.length; i += 8) bytes.push(parseInt(bits.slice(i, i + 8), 2))
+  return Buffer.from(bytes)
+}
+
+export function generateTotpSecret() {
+  return base32Encode(randomBytes(20))
+}
+
+export function currentStep(now = Date.now()) {
+  return Math.floor(now / 1000 / STEP_SECONDS)
+}
+
+export function totpCode(secret: string, step = currentStep()) {
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(step))
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest()
+  const offset = hmac[hmac.length - 1] & 0x0f
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0')
+}
+
+// Returns the matching time step, or null. One step either side is accepted
+// to allow for clock drift.
+export function verifyTotp(secret: string, code: string, now = Date.now()) {
+  if (!/^\d{6}$/.test(code)) return null
+  const step = currentStep(now)
+  for (const candidate of [step, step - 1, step + 1]) {
+    if (timingSafeEqual(Buffer.from(totpCode(secret, candidate)), Buffer.from(code))) return candidate
+  }
+  return null
+}
+
+export function otpauthUrl(secret: string, account: string, issuer = 'RandomLife') {
+  const label = encodeURIComponent(`${issuer}:${account}`)
+  const params = new URLSearchParams({ secret, issuer, algorithm: 'SHA1', digits: String(DIGITS), period: String(STEP_SECONDS) })
+  return `otpauth://totp/${label}?${params}`
+}
@@ -0,0 +1,131 @@
+import { randomBytes } from 'crypto'
+import bcrypt from 'bcryptjs'
+import QRCode from 'qrcode'
+import type { User } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { decrypt, encrypt } from '@/lib/encryption'
+import { generateTotpSecret, otpauthUrl, verifyTotp } from '@/lib/totp'
+import { hashToken } from '@/lib/tokens'
+
+const RECOVERY_CODE_COUNT = 10
+
+export class TwoFactorError extends Error {
+  constructor(message: string, public status = 400, public code?: string) {
+    super(message)
+    this.name = 'TwoFactorError'
+  }
+}
+
+async function findUser(userId: string) {
+  const user = await prisma.user.findUnique({ where: { id: userId } })
+  if (!user) throw new TwoFactorError('User not found', 404)
+  return user
+}
+
+// Recovery codes look like "a1b2c-3d4e5"; case and dashes are ignored when
+// they are typed back in
+function normalizeRecoveryCode(code: string) {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+function newRecoveryCodes() {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = randomBytes(5).toString('hex')
+    return `${code.slice(0, 5)}-${code.slice(5)}`
+  })
+}
+
+async function replaceRecoveryCodes(userId: string) {
+  const codes = newRecoveryCodes()
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.createMany({
+      data: codes.map((code) => ({ userId, codeHash: hashToken(normalizeRecoveryCode(code)) })),
+    }),
+  ])
+  return codes
+}
+
+export async function twoFactorStatus(userId: string) {
+  const user = await findUser(userId)
+  const recoveryCodesRemaining = await prisma.recoveryCode.count({ where: { userId, usedAt: null } })
+  // OAuth-only accounts have no password to confirm setup with
+  return { enabled: !!user.totpEnabledAt, recoveryCodesRemaining, hasPassword: !!user.password }
+}
+
+// Starting enrollment asks for the password so a session left open on a
+// shared computer cannot be used to take over the second factor
+export async function beginEnrollment(userId: string, password: string | undefined) {
+  const user = await findUser(userId)
+  if (user.totpEnabledAt) throw new TwoFactorError('Two-factor authentication is already on')
+  if (user.password && !(password && (await bcrypt.compare(password, user.password)))) {
+    throw new TwoFactorError('Incorrect password', 400, 'INVALID_PASSWORD')
+  }
+
+  const secret = generateTotpSecret()
+  await prisma.user.update({ where: { id: userId }, data: { totpSecret: encrypt(secret), totpLastStep: null } })
+
+  const url = otpauthUrl(secret, user.email)
+  return { secret, otpauthUrl: url, qrCode: await QRCode.toDataURL(url) }
+}
+
+// The first code proves the app was set up correctly; only then is 2FA on
+export async function confirmEnrollment(userId: string, code: string) {
+  const user = await findUser(userId)
+  if (user.totpEnabledAt) throw new TwoFactorError('Two-factor authentication is already on')
+  if (!user.totpSecret) throw new TwoFactorError('Start the setup again')
+
+  const step = verifyTotp(decrypt(user.totpSecret), code)
+  if (step === null) throw new TwoFactorError('That code is not valid', 400, 'INVALID_CODE')
+
+  await prisma.user.update({ where: { id: userId }, data: { totpEnabledAt: new Date(), totpLastStep: step } })
+  return { recoveryCodes: await replaceRecoveryCodes(userId) }
+}
+
+// Checks an authenticator code or, failing that, a recovery code, which is
+// used up. Codes from a time step that was already accepted are refused.
+export async function verifySecondFactor(user: User, code: string) {
+  if (!user.totpEnabledAt || !user.totpSecret) return true
+
+  const step = verifyTotp(decrypt(user.totpSecret), code.trim())
+  if (step !== null) {
+    const accepted = await prisma.user.updateMany({
+      where: { id: user.id, OR: [{ totpLastStep: null }, { totpLastStep: { lt: step } }] },
+      data: { totpLastStep: step },
+    })
+    return accepted.count > 0
+  }
+
+  const recovery = await prisma.recoveryCode.findFirst({
+    where: { userId: user.id, usedAt: null, codeHash: hashToken(normalizeRecoveryCode(code)) },
+  })
+  if (!recovery) return false
+
+  const claimed = await prisma.recoveryCode.updateMany({
+    where: { id: recovery.id, usedAt: null },
+    data: { usedAt: new Date() },
+  })
+  return claimed.count > 0
+}
+
+async function requireSecondFactor(userId: string, code: string) {
+  const user = await findUser(userId)
+  if (!user.totpEnabledAt) throw new TwoFactorError('Two-factor authentication is off')
+  if (!(await verifySecondFactor(user, code))) throw new TwoFactorError('That code is not valid', 400, 'INVALID_CODE')
+}
+
+export async function disableTwoFactor(userId: string, code: string) {
+  await requireSecondFactor(userId, code)
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { totpSecret: null, totpEnabledAt: null, totpLastStep: null },
+    }),
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+  ])
+}
+
+export async function regenerateRecoveryCodes(userId: string, code: string) {
+  await requireSecondFactor(userId, code)
+  return { recoveryCodes: await replaceRecoveryCodes(userId) }
+}
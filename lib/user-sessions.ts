@@ -0,0 +1,113 @@
+import { headers } from 'next/headers'
+import { prisma } from '@/lib/prisma'
+import { getClientIp } from '@/lib/request'
+
+// Sessions are JWTs, so on their own they cannot be listed or revoked. Each
+// token gets a UserSession row when it is issued; the jwt callback checks the
+// row on every request and drops the token once the row is revoked.
+
+// Also the JWT lifetime in authOptions, so rows and tokens expire together
+export const SESSION_MAX_AGE = 30 * 24 * 60 * 60
+
+// lastSeenAt is only written this often, not on every request
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000
+
+// The jwt callback also runs outside a request (e.g. during the build), where
+// headers() throws
+function requestInfo() {
+  try {
+    const requestHeaders = headers()
+    const ip = getClientIp(requestHeaders as unknown as Headers)
+    return { userAgent: requestHeaders.get('user-agent'), ip: ip === 'unknown' ? null : ip }
+  } catch {
+    return { userAgent: null, ip: null }
+  }
+}
+
+function activeSince() {
+  return new Date(Date.now() - SESSION_MAX_AGE * 1000)
+}
+
+export async function createUserSession(userId: string) {
+  const session = await prisma.userSession.create({ data: { userId, ...requestInfo() } })
+  return session.id
+}
+
+// Whether the token's session is still valid, refreshing its last-seen time
+export async function touchUserSession(id: string, userId: string) {
+  const session = await prisma.userSession.findUnique({ where: { id } })
+  if (!session || session.userId !== userId || session.revokedAt) return false
+
+  if (Date.now() - session.lastSeenAt.getTime() > TOUCH_INTERVAL_MS) {
+    const { ip } = requestInfo()
+    await prisma.userSession.update({
+      where: { id },
+      data: { lastSeenAt: new Date(), ...(ip ? { ip } : {}) },
+    })
+  }
+  return true
+}
+
+// Checked in order: Edge and Opera also claim to be Chrome, Chrome claims to be Safari
+const BROWSERS: [string, RegExp][] = [
+  ['Edge', /Edg\//],
+  ['Opera', /OPR\//],
+  ['WeChat', /MicroMessenger/],
+  ['Firefox', /Firefox\//],
+  ['Chrome', /Chrome\//],
+  ['Safari', /Safari\//],
+]
+
+const SYSTEMS: [string, RegExp][] = [
+  ['iOS', /iPhone|iPad/],
+  ['Android', /Android/],
+  ['Windows', /Windows/],
+  ['macOS', /Mac OS X/],
+  ['Linux', /Linux/],
+]
+
+function firstMatch(names: [string, RegExp][], userAgent: string) {
+  return names.find(([, pattern]) => pattern.test(userAgent))?.[0]
+}
+
+// "Chrome on macOS", good enough for people to recognise their devices
+export function describeDevice(userAgent: string | null) {
+  if (!userAgent) return 'Unknown device'
+  const browser = firstMatch(BROWSERS, userAgent) ?? 'Unknown browser'
+  const system = firstMatch(SYSTEMS, userAgent)
+  return system ? `${browser} on ${system}` : browser
+}
+
+export async function listUserSessions(userId: string, currentId?: string) {
+  const sessions = await prisma.userSession.findMany({
+    where: { userId, revokedAt: null, lastSeenAt: { gt: activeSince() } },
+    orderBy: { lastSeenAt: 'desc' },
+  })
+
+  return sessions.map((session) => ({
+    id: session.id,
+    device: describeDevice(session.userAgent),
+    userAgent: session.userAgent,
+    ip: session.ip,
+    createdAt: session.createdAt,
+    lastSeenAt: session.lastSeenAt,
+    current: session.id === currentId,
+  }))
+}
+
+export async function revokeUserSession(userId: string, id: string) {
+  const { count } = await prisma.userSession.updateMany({
+    where: { id, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  })
+  return count > 0
+}
+
+// Leaves exceptId alone, for "sign out all other devices"
+export async function revokeUserSessions(userId: string, exceptId?: string) {
+  const { count } = await prisma.userSession.updateMany({
+    where: { userId, revokedAt: null, ...(exceptId ? { id: { not: exceptId } } : {}) },
+    data: { revokedAt: new Date() },
+  })
+  return count
+}
@@ -0,0 +1,14 @@
+import { withAuth } from 'next-auth/middleware'
+import { hasRole, requiredRoleForPath } from '@/lib/roles'
+
+// Keeps /admin pages away from signed-out users and users without the right
+// role. The token's role can lag a demotion by one request, so the admin API
+// routes check again with requireRole().
+export default withAuth({
+  callbacks: {
+    authorized: ({ token, req }) => !!token && hasRole(token.role, requiredRoleForPath(req.nextUrl.pathname)),
+  },
+  pages: { signIn: '/login' },
+})
+
+export const config = { matcher: ['/admin/:path*'] }
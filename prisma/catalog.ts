@@ -0,0 +1,180 @@
+// Initial recommendation catalog, loaded by prisma/seed.ts.
+// Item ids are stable so re-running the seed never duplicates rows.
+
+export const CATEGORIES = [
+  { id: 'entertainment', title: '随机娱乐', icon: '🎲', sortOrder: 0 },
+  { id: 'shopping', title: '随机购物', icon: '🛍️', sortOrder: 1 },
+  { id: 'food', title: '随机吃', icon: '🍜', sortOrder: 2 },
+  { id: 'travel', title: '随机出行', icon: '🏞️', sortOrder: 3 },
+  { id: 'fitness', title: '随机健身', icon: '💪', sortOrder: 4 },
+]
+
+export const CATALOG_ITEMS = [
+  // Entertainment
+  {
+    id: 'entertainment-1',
+    categoryId: 'entertainment',
+    type: 'sci-fi',
+    title: '三体',
+    tags: '科幻,小说,阅读',
+    description: '刘慈欣经典科幻小说，探索宇宙文明的宏大史诗',
+  },
+  {
+    id: 'entertainment-2',
+    categoryId: 'entertainment',
+    type: 'game',
+    title: '原神',
+    tags: '游戏,冒险,开放世界',
+    description: '开放世界冒险游戏，探索提瓦特大陆的奇幻世界',
+  },
+  {
+    id: 'entertainment-3',
+    categoryId: 'entertainment',
+    type: 'song',
+    title: '稻香',
+    tags: '音乐,华语,怀旧',
+    description: '周杰伦经典歌曲，回忆童年美好时光',
+  },
+  {
+    id: 'entertainment-4',
+    categoryId: 'entertainment',
+    type: 'movie',
+    title: '流浪地球',
+    tags: '科幻,电影',
+    description: '中国科幻电影巅峰之作，人类拯救地球的壮举',
+  },
+
+  // Shopping
+  {
+    id: 'shopping-1',
+    categoryId: 'shopping',
+    type: 'fashion',
+    title: 'Uniqlo 基础T恤',
+    tags: '服饰,基础款',
+    description: '简约百搭，舒适透气',
+    price: 9900,
+    currency: 'CNY',
+  },
+  {
+    id: 'shopping-2',
+    categoryId: 'shopping',
+    type: 'shoes',
+    title: 'Nike Air Force 1',
+    tags: '鞋履,潮流',
+    description: '经典白色板鞋，百搭时尚',
+    price: 89900,
+    currency: 'CNY',
+  },
+  {
+    id: 'shopping-3',
+    categoryId: 'shopping',
+    type: 'gadget',
+    title: 'AirPods Pro',
+    tags: '数码,音频',
+    description: '主动降噪，音质出色',
+    price: 189900,
+    currency: 'CNY',
+  },
+  {
+    id: 'shopping-4',
+    categoryId: 'shopping',
+    type: 'daily',
+    title: '无印良品收纳盒',
+    tags: '家居,收纳',
+    description: '简约设计，整理收纳好帮手',
+    price: 4900,
+    currency: 'CNY',
+  },
+
+  // Food
+  {
+    id: 'food-1',
+    categoryId: 'food',
+    title: '四川火锅',
+    tags: '川菜,辣,热食',
+    description: '麻辣鲜香，暖胃暖心',
+    calories: 650,
+  },
+  {
+    id: 'food-2',
+    categoryId: 'food',
+    title: '日式拉面',
+    tags: '日料,面食,热汤',
+    description: '浓郁汤头，Q弹面条',
+    calories: 480,
+  },
+  {
+    id: 'food-3',
+    categoryId: 'food',
+    title: '意大利披萨',
+    tags: '西餐,芝士',
+    description: '芝士拉丝，香脆饼底',
+    calories: 520,
+  },
+  {
+    id: 'food-4',
+    categoryId: 'food',
+    title: '广式点心',
+    tags: '粤菜,下午茶',
+    description: '精致小巧，口感丰富',
+    calories: 320,
+  },
+
+  // Travel
+  {
+    id: 'travel-1',
+    categoryId: 'travel',
+    title: '西湖漫步',
+    tags: '江南,休闲,自然',
+    description: '在杭州西湖边悠闲散步，欣赏湖光山色',
+    duration: '2-3小时',
+    weather: '晴朗 22°C',
+  },
+  {
+    id: 'travel-2',
+    categoryId: 'travel',
+    title: '故宫博物院',
+    tags: '历史,博物馆,城市',
+    description: '探索中国古代皇家建筑的宏伟与精美',
+    duration: '半天',
+    weather: '多云 18°C',
+  },
+  {
+    id: 'travel-3',
+    categoryId: 'travel',
+    title: '黄山登山',
+    tags: '登山,自然,挑战',
+    description: '挑战自我，登顶黄山观日出云海',
+    duration: '全天',
+    weather: '晴朗 15°C',
+  },
+
+  // Fitness
+  {
+    id: 'fitness-1',
+    categoryId: 'fitness',
+    title: '晨跑',
+    tags: '户外,有氧',
+    description: '在公园里进行30分钟轻松慢跑',
+    duration: '30分钟',
+    weather: '适宜运动',
+  },
+  {
+    id: 'fitness-2',
+    categoryId: 'fitness',
+    title: '瑜伽练习',
+    tags: '室内,拉伸,放松',
+    description: '在家进行舒缓的瑜伽拉伸运动',
+    duration: '45分钟',
+    weather: '室内运动',
+  },
+  {
+    id: 'fitness-3',
+    categoryId: 'fitness',
+    title: '游泳',
+    tags: '室内,有氧',
+    description: '在游泳池进行有氧游泳训练',
+    duration: '1小时',
+    weather: '室内运动',
+  },
+]
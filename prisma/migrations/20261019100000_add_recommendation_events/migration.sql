@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "RecommendationEvent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "itemId" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "reason" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "RecommendationEvent_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "RecommendationEvent_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "RecommendationItem" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "RecommendationEvent_userId_createdAt_idx" ON "RecommendationEvent"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "RecommendationEvent_userId_categoryId_createdAt_idx" ON "RecommendationEvent"("userId", "categoryId", "createdAt");
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "RecommendationItem" ADD COLUMN "tags" TEXT NOT NULL DEFAULT '';
+
+-- Backfill tags for the seeded catalog
+UPDATE "RecommendationItem" SET "tags" = '科幻,小说,阅读' WHERE "id" = 'entertainment-1';
+UPDATE "RecommendationItem" SET "tags" = '游戏,冒险,开放世界' WHERE "id" = 'entertainment-2';
+UPDATE "RecommendationItem" SET "tags" = '音乐,华语,怀旧' WHERE "id" = 'entertainment-3';
+UPDATE "RecommendationItem" SET "tags" = '科幻,电影' WHERE "id" = 'entertainment-4';
+UPDATE "RecommendationItem" SET "tags" = '服饰,基础款' WHERE "id" = 'shopping-1';
+UPDATE "RecommendationItem" SET "tags" = '鞋履,潮流' WHERE "id" = 'shopping-2';
+UPDATE "RecommendationItem" SET "tags" = '数码,音频' WHERE "id" = 'shopping-3';
+UPDATE "RecommendationItem" SET "tags" = '家居,收纳' WHERE "id" = 'shopping-4';
+UPDATE "RecommendationItem" SET "tags" = '川菜,辣,热食' WHERE "id" = 'food-1';
+UPDATE "RecommendationItem" SET "tags" = '日料,面食,热汤' WHERE "id" = 'food-2';
+UPDATE "RecommendationItem" SET "tags" = '西餐,芝士' WHERE "id" = 'food-3';
+UPDATE "RecommendationItem" SET "tags" = '粤菜,下午茶' WHERE "id" = 'food-4';
+UPDATE "RecommendationItem" SET "tags" = '江南,休闲,自然' WHERE "id" = 'travel-1';
+UPDATE "RecommendationItem" SET "tags" = '历史,博物馆,城市' WHERE "id" = 'travel-2';
+UPDATE "RecommendationItem" SET "tags" = '登山,自然,挑战' WHERE "id" = 'travel-3';
+UPDATE "RecommendationItem" SET "tags" = '户外,有氧' WHERE "id" = 'fitness-1';
+UPDATE "RecommendationItem" SET "tags" = '室内,拉伸,放松' WHERE "id" = 'fitness-2';
+UPDATE "RecommendationItem" SET "tags" = '室内,有氧' WHERE "id" = 'fitness-3';
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "Feedback" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "itemId" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Feedback_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Feedback_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "RecommendationItem" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Feedback_userId_itemId_key" ON "Feedback"("userId", "itemId");
+
+-- CreateIndex
+CREATE INDEX "Feedback_userId_categoryId_idx" ON "Feedback"("userId", "categoryId");
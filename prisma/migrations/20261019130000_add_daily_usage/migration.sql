@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "DailyUsage" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "subjectKey" TEXT NOT NULL,
+    "day" TEXT NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DailyUsage_subjectKey_day_key" ON "DailyUsage"("subjectKey", "day");
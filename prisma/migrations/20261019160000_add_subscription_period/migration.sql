@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "cancelAtPeriodEnd" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "User" ADD COLUMN "currentPeriodEnd" DATETIME;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "Invoice" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT,
+    "provider" TEXT NOT NULL,
+    "providerId" TEXT NOT NULL,
+    "number" TEXT,
+    "status" TEXT NOT NULL,
+    "tier" TEXT,
+    "description" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "subtotal" INTEGER NOT NULL,
+    "tax" INTEGER NOT NULL DEFAULT 0,
+    "total" INTEGER NOT NULL,
+    "periodStart" DATETIME,
+    "periodEnd" DATETIME,
+    "paidAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Invoice_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_provider_providerId_key" ON "Invoice"("provider", "providerId");
+
+-- CreateIndex
+CREATE INDEX "Invoice_userId_createdAt_idx" ON "Invoice"("userId", "createdAt");
@@ -0,0 +1,64 @@
+-- RedefineTables: password becomes optional for OAuth-only accounts
+PRAGMA foreign_keys=off;
+CREATE TABLE "new_User" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT,
+    "email" TEXT NOT NULL,
+    "emailVerified" DATETIME,
+    "image" TEXT,
+    "password" TEXT,
+    "sessionVersion" INTEGER NOT NULL DEFAULT 0,
+    "role" TEXT NOT NULL DEFAULT 'user',
+    "subscriptionTier" TEXT NOT NULL DEFAULT 'free',
+    "subscriptionId" TEXT,
+    "paymentMethod" TEXT,
+    "subscriptionStatus" TEXT,
+    "stripeCustomerId" TEXT,
+    "cancelAtPeriodEnd" BOOLEAN NOT NULL DEFAULT false,
+    "currentPeriodEnd" DATETIME,
+    "disabledAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+INSERT INTO "new_User" ("id", "name", "email", "emailVerified", "password", "sessionVersion", "role", "subscriptionTier", "subscriptionId", "paymentMethod", "subscriptionStatus", "stripeCustomerId", "cancelAtPeriodEnd", "currentPeriodEnd", "disabledAt", "createdAt", "updatedAt") SELECT "id", "name", "email", "emailVerified", "password", "sessionVersion", "role", "subscriptionTier", "subscriptionId", "paymentMethod", "subscriptionStatus", "stripeCustomerId", "cancelAtPeriodEnd", "currentPeriodEnd", "disabledAt", "createdAt", "updatedAt" FROM "User";
+DROP TABLE "User";
+ALTER TABLE "new_User" RENAME TO "User";
+CREATE UNIQUE INDEX "User_email_key" ON "User"("email");
+CREATE UNIQUE INDEX "User_stripeCustomerId_key" ON "User"("stripeCustomerId");
+PRAGMA foreign_key_check;
+PRAGMA foreign_keys=on;
+
+-- CreateTable
+CREATE TABLE "Account" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "providerAccountId" TEXT NOT NULL,
+    "refresh_token" TEXT,
+    "access_token" TEXT,
+    "expires_at" INTEGER,
+    "token_type" TEXT,
+    "scope" TEXT,
+    "id_token" TEXT,
+    "session_state" TEXT,
+    CONSTRAINT "Account_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "Session" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sessionToken" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "expires" DATETIME NOT NULL,
+    CONSTRAINT "Session_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Account_provider_providerAccountId_key" ON "Account"("provider", "providerAccountId");
+
+-- CreateIndex
+CREATE INDEX "Account_userId_idx" ON "Account"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Session_sessionToken_key" ON "Session"("sessionToken");
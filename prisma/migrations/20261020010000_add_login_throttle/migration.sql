@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "LoginThrottle" (
+    "key" TEXT NOT NULL PRIMARY KEY,
+    "failures" INTEGER NOT NULL DEFAULT 0,
+    "lastFailureAt" DATETIME NOT NULL,
+    "lockedUntil" DATETIME,
+    "notifiedAt" DATETIME
+);
@@ -1,11 +1,14 @@
 import { PrismaClient } from '@prisma/client'
 import bcrypt from 'bcryptjs'
+import { CATEGORIES, CATALOG_ITEMS } from './catalog'
 
 const prisma = new PrismaClient()
 
 async function main() {
   // Create dummy users
   const password = await bcrypt.hash('demo123', 10)
+  // Dummy accounts skip email verification
+  const emailVerified = new Date()
 
   const demoUser = await prisma.user.upsert({
     where: { email: 'demo@example.com' },
@@ -13,6 +16,7 @@ async function main() {
     create: {
       email: 'demo@example.com',
       password: password,
+      emailVerified,
       name: 'Demo User',
       subscriptionTier: 'free',
     },
@@ -24,6 +28,7 @@ async function main() {
     create: {
       email: 'pro@example.com',
       password: password,
+      emailVerified,
       name: 'Pro User',
       subscriptionTier: 'pro',
       subscriptionId: 'sub_demo_pro_123',
@@ -37,6 +42,7 @@ async function main() {
     create: {
       email: 'enterprise@example.com',
       password: password,
+      emailVerified,
       name: 'Enterprise User',
       subscriptionTier: 'enterprise',
       subscriptionId: 'sub_demo_ent_456',
@@ -44,10 +50,42 @@ async function main() {
     },
   })
 
+  const adminUser = await prisma.user.upsert({
+    where: { email: 'admin@example.com' },
+    update: {},
+    create: {
+      email: 'admin@example.com',
+      password: password,
+      emailVerified,
+      name: 'Admin User',
+      role: 'admin',
+    },
+  })
+
   console.log('✅ Dummy users created:')
   console.log('📧 Email: demo@example.com | Password: demo123 (Free tier)')
   console.log('📧 Email: pro@example.com | Password: demo123 (Pro tier - Stripe)')
   console.log('📧 Email: enterprise@example.com | Password: demo123 (Enterprise tier - PayPal)')
+  console.log('📧 Email: admin@example.com | Password: demo123 (Admin role)')
+
+  // Load the recommendation catalog
+  for (const category of CATEGORIES) {
+    await prisma.category.upsert({
+      where: { id: category.id },
+      update: {},
+      create: category,
+    })
+  }
+
+  for (const item of CATALOG_ITEMS) {
+    await prisma.recommendationItem.upsert({
+      where: { id: item.id },
+      update: {},
+      create: item,
+    })
+  }
+
+  console.log(`✅ Catalog loaded: ${CATEGORIES.length} categories, ${CATALOG_ITEMS.length} items`)
 }
 
 main()
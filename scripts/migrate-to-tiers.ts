@@ -1,25 +1,113 @@
 import { PrismaClient } from '@prisma/client'
 
+// Converts legacy `isPro` users to `subscriptionTier` in place.
+//
+// Databases created through `prisma migrate` are converted by the
+// 20251005_add_subscription_tiers migration and need nothing from this script.
+// It is for databases that were set up with `prisma db push` before tiers
+// existed and therefore have no migration history:
+//
+//   pnpm run migrate:tiers --dry-run          # report what would change
+//   pnpm run migrate:tiers                    # convert isPro rows
+//   pnpm run migrate:tiers --drop-legacy-column
+//
+// Running it again is safe: each isPro flag is cleared as it is converted, so
+// a user downgraded later is not given pro again, and rows that already have
+// a paid tier keep it.
+
 const prisma = new PrismaClient()
 
+const args = new Set(process.argv.slice(2))
+const dryRun = args.has('--dry-run')
+const dropLegacyColumn = args.has('--drop-legacy-column')
+
+const TIER_MIGRATIONS = ['20250923150012_init', '20251005_add_subscription_tiers']
+
+async function columns(table: string) {
+  const rows = await prisma.$queryRawUnsafe<{ name: string }[]>(`PRAGMA table_info("${table}")`)
+  return new Set(rows.map((row) => row.name))
+}
+
+async function tableExists(table: string) {
+  const rows = await prisma.$queryRawUnsafe<{ name: string }[]>(
+    `SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?`,
+    table
+  )
+  return rows.length > 0
+}
+
+async function count(sql: string) {
+  const [row] = await prisma.$queryRawUnsafe<{ count: bigint | number }[]>(sql)
+  return Number(row.count)
+}
+
+async function tierCounts() {
+  const rows = await prisma.$queryRawUnsafe<{ tier: string; count: bigint | number }[]>(
+    `SELECT "subscriptionTier" AS tier, COUNT(*) AS count FROM "User" GROUP BY "subscriptionTier" ORDER BY tier`
+  )
+  return rows.map((row) => `${row.tier}: ${Number(row.count)}`).join(', ') || 'no users'
+}
+
 async function main() {
-  console.log('🔄 Starting migration to subscription tiers...')
+  console.log(`🔄 Migrating isPro → subscriptionTier${dryRun ? ' (dry run, nothing is written)' : ''}`)
+
+  const userColumns = await columns('User')
+  if (userColumns.size === 0) throw new Error('No User table found. Is DATABASE_URL pointing at the right database?')
+
+  if (!userColumns.has('isPro')) {
+    console.log('✅ No isPro column: this database is already migrated.')
+    if (userColumns.has('subscriptionTier')) console.log(`   Tiers: ${await tierCounts()}`)
+    return
+  }
+
+  const statements: string[] = []
+  const hasTierColumns = userColumns.has('subscriptionTier')
+  if (!hasTierColumns) {
+    statements.push(
+      `ALTER TABLE "User" ADD COLUMN "subscriptionTier" TEXT NOT NULL DEFAULT 'free'`,
+      `ALTER TABLE "User" ADD COLUMN "subscriptionId" TEXT`,
+      `ALTER TABLE "User" ADD COLUMN "paymentMethod" TEXT`
+    )
+  }
+
+  const total = await count(`SELECT COUNT(*) AS count FROM "User"`)
+  const legacyPro = await count(`SELECT COUNT(*) AS count FROM "User" WHERE "isPro" = 1`)
+  // Only upgrade rows still on free, so paid tiers set since are never
+  // downgraded. The flag is cleared in the same statement: left at 1, a later
+  // run would hand pro back to someone whose subscription has since ended.
+  const toConvert = hasTierColumns
+    ? await count(`SELECT COUNT(*) AS count FROM "User" WHERE "isPro" = 1 AND "subscriptionTier" = 'free'`)
+    : legacyPro
+  statements.push(
+    `UPDATE "User" SET "subscriptionTier" = CASE WHEN "subscriptionTier" = 'free' THEN 'pro' ELSE "subscriptionTier" END, "isPro" = 0 WHERE "isPro" = 1`
+  )
 
-  // Get all users
-  const users = await prisma.$queryRaw<any[]>`SELECT * FROM User`
+  if (dropLegacyColumn) {
+    // Needs SQLite 3.35+
+    statements.push(`ALTER TABLE "User" DROP COLUMN "isPro"`)
+  }
 
-  console.log(`Found ${users.length} users to migrate`)
+  console.log(`   Users:                 ${total}`)
+  console.log(`   isPro users:           ${legacyPro}`)
+  console.log(`   To convert to pro:     ${toConvert}`)
+  console.log(`   Kept on paid tier:     ${legacyPro - toConvert}`)
+  if (!hasTierColumns) console.log('   Tier columns will be added')
+  if (dropLegacyColumn) console.log('   The isPro column will be dropped')
 
-  // Migrate each user
-  for (const user of users) {
-    const tier = user.isPro ? 'pro' : 'free'
-    console.log(`Migrating user ${user.email}: ${user.isPro ? 'Pro' : 'Free'} → ${tier}`)
+  if (dryRun) {
+    console.log('\nWould run:')
+    for (const statement of statements) console.log(`   ${statement}`)
+    return
   }
 
-  // Now push the schema (data migration handled by custom logic)
-  console.log('\n✅ Migration preview complete!')
-  console.log('Run: npx prisma db push --accept-data-loss')
-  console.log('Then run: pnpm run seed to recreate test users')
+  await prisma.$transaction(statements.map((statement) => prisma.$executeRawUnsafe(statement)))
+  console.log(`\n✅ Converted ${toConvert} users. Tiers: ${await tierCounts()}`)
+
+  if (!(await tableExists('_prisma_migrations'))) {
+    console.log('\nThis database has no migration history. Once isPro is dropped, adopt it with:')
+    for (const migration of TIER_MIGRATIONS) console.log(`   npx prisma migrate resolve --applied ${migration}`)
+    console.log('   npx prisma migrate deploy')
+  }
 }
 
 main()
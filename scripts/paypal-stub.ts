@@ -0,0 +1,149 @@
+import http from 'http'
+import { randomUUID } from 'crypto'
+
+// Minimal stand-in for the PayPal REST API, enough to exercise subscriptions
+// end to end without a sandbox account:
+//
+//   pnpm run paypal:stub
+//   PAYPAL_API_BASE=http://localhost:4010 PAYPAL_WEBHOOK_ID=WH-STUB pnpm dev
+//
+// Approval links point straight back at the app's return_url, as if the buyer
+// had approved. Webhooks are sent with the real simulate-event endpoint:
+//
+//   curl -X POST localhost:4010/v1/notifications/simulate-event \
+//     -d '{"url":"http://localhost:3000/api/paypal/webhook","event_type":"BILLING.SUBSCRIPTION.CANCELLED","resource_id":"I-..."}'
+//
+// PAYMENT.SALE.* events send a sale for the subscription; pass "amount" to
+// override the default 9.99.
+
+const PORT = Number(process.env.PAYPAL_STUB_PORT || 4010)
+
+interface StubSubscription {
+  id: string
+  status: string
+  plan_id: string
+  custom_id?: string
+  subscriber?: unknown
+  billing_info: { next_billing_time: string }
+  create_time: string
+}
+
+const subscriptions = new Map<string, StubSubscription>()
+
+function send(res: http.ServerResponse, status: number, body?: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(body === undefined ? undefined : JSON.stringify(body))
+}
+
+async function readBody(req: http.IncomingMessage) {
+  let raw = ''
+  for await (const chunk of req) raw += chunk
+  if (!raw) return {}
+  try {
+    return JSON.parse(raw)
+  } catch {
+    return Object.fromEntries(new URLSearchParams(raw))
+  }
+}
+
+function nextBillingTime() {
+  const date = new Date()
+  date.setMonth(date.getMonth() + 1)
+  return date.toISOString()
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', `http://localhost:${PORT}`)
+  const body = await readBody(req)
+  const subscriptionMatch = url.pathname.match(/^\/v1\/billing\/subscriptions\/([^/]+)(\/\w+)?$/)
+  console.log(`${req.method} ${url.pathname}`)
+
+  if (req.method === 'POST' && url.pathname === '/v1/oauth2/token') {
+    return send(res, 200, { access_token: `stub-token-${randomUUID()}`, token_type: 'Bearer', expires_in: 32400 })
+  }
+
+  if (req.method === 'POST' && url.pathname === '/v1/billing/subscriptions') {
+    const subscription: StubSubscription = {
+      id: `I-STUB${randomUUID().replace(/-/g, '').slice(0, 10).toUpperCase()}`,
+      status: 'ACTIVE',
+      plan_id: body.plan_id,
+      custom_id: body.custom_id,
+      subscriber: body.subscriber,
+      billing_info: { next_billing_time: nextBillingTime() },
+      create_time: new Date().toISOString(),
+    }
+    subscriptions.set(subscription.id, subscription)
+
+    const returnUrl = new URL(body.application_context?.return_url ?? 'http://localhost:3000/api/paypal/return')
+    returnUrl.searchParams.set('subscription_id', subscription.id)
+    returnUrl.searchParams.set('ba_token', 'BA-STUB')
+    returnUrl.searchParams.set('token', 'STUB')
+
+    return send(res, 201, {
+      ...subscription,
+      status: 'APPROVAL_PENDING',
+      links: [
+        { href: returnUrl.toString(), rel: 'approve', method: 'GET' },
+        { href: `http://localhost:${PORT}/v1/billing/subscriptions/${subscription.id}`, rel: 'self', method: 'GET' },
+      ],
+    })
+  }
+
+  if (subscriptionMatch) {
+    const subscription = subscriptions.get(subscriptionMatch[1])
+    if (!subscription) return send(res, 404, { name: 'RESOURCE_NOT_FOUND' })
+
+    const action = subscriptionMatch[2]
+    if (req.method === 'GET' && !action) return send(res, 200, subscription)
+    if (req.method === 'POST' && action === '/cancel') {
+      subscription.status = 'CANCELLED'
+      return send(res, 204)
+    }
+    if (req.method === 'POST' && action === '/revise') {
+      subscription.plan_id = body.plan_id
+      return send(res, 200, { plan_id: subscription.plan_id, links: [] })
+    }
+  }
+
+  if (req.method === 'POST' && url.pathname === '/v1/notifications/verify-webhook-signature') {
+    return send(res, 200, { verification_status: 'SUCCESS' })
+  }
+
+  if (req.method === 'POST' && url.pathname === '/v1/notifications/simulate-event') {
+    const subscription = subscriptions.get(body.resource_id)
+    if (!subscription) return send(res, 404, { name: 'RESOURCE_NOT_FOUND' })
+
+    if (body.event_type === 'BILLING.SUBSCRIPTION.CANCELLED') subscription.status = 'CANCELLED'
+    if (body.event_type === 'BILLING.SUBSCRIPTION.SUSPENDED') subscription.status = 'SUSPENDED'
+
+    // Payment events carry a sale for the subscription rather than the subscription itself
+    const isSale = String(body.event_type).startsWith('PAYMENT.SALE.')
+    const event = {
+      id: `WH-STUB-${randomUUID()}`,
+      event_type: body.event_type,
+      resource_type: isSale ? 'sale' : 'subscription',
+      create_time: new Date().toISOString(),
+      resource: isSale
+        ? {
+            id: body.sale_id ?? `SALE-STUB${randomUUID().replace(/-/g, '').slice(0, 10).toUpperCase()}`,
+            state: 'completed',
+            billing_agreement_id: subscription.id,
+            amount: { total: body.amount ?? '9.99', currency: 'USD' },
+            create_time: new Date().toISOString(),
+          }
+        : subscription,
+    }
+    const delivery = await fetch(body.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Paypal-Transmission-Id': randomUUID() },
+      body: JSON.stringify(event),
+    })
+    return send(res, 202, { id: event.id, delivered: delivery.status })
+  }
+
+  send(res, 404, { name: 'NOT_FOUND', path: url.pathname })
+})
+
+server.listen(PORT, () => {
+  console.log(`PayPal stub listening on http://localhost:${PORT}`)
+})
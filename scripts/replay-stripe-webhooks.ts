@@ -0,0 +1,111 @@
+import { readFileSync } from 'fs'
+import path from 'path'
+import Stripe from 'stripe'
+import { PrismaClient } from '@prisma/client'
+
+// Replays the recorded Stripe events in scripts/fixtures/stripe against a running
+// app, signed with STRIPE_WEBHOOK_SECRET, and checks the user row after each one.
+// The events go to a throwaway user created for the run and removed afterwards,
+// so no real account's billing fields are touched.
+//
+//   STRIPE_WEBHOOK_SECRET=whsec_test pnpm dev
+//   STRIPE_WEBHOOK_SECRET=whsec_test pnpm run stripe:replay [webhook url]
+
+const prisma = new PrismaClient()
+
+const webhookUrl = process.argv[2] || 'http://localhost:3000/api/stripe/webhook'
+const secret = process.env.STRIPE_WEBHOOK_SECRET
+
+// The customer every fixture belongs to; stripeCustomerId is unique
+const FIXTURE_CUSTOMER = 'cus_fixture0001'
+
+const SCENARIO = [
+  {
+    fixture: 'checkout.session.completed',
+    expect: { subscriptionTier: 'pro', subscriptionStatus: 'active', paymentMethod: 'stripe' },
+  },
+  { fixture: 'checkout.session.completed', duplicate: true },
+  { fixture: 'customer.subscription.updated', expect: { subscriptionTier: 'enterprise', cancelAtPeriodEnd: false } },
+  { fixture: 'invoice.payment_failed', expect: { subscriptionTier: 'enterprise', subscriptionStatus: 'past_due' } },
+  { fixture: 'invoice.paid', expect: { subscriptionTier: 'enterprise' } },
+  {
+    fixture: 'customer.subscription.deleted',
+    expect: { subscriptionTier: 'free', subscriptionId: null, paymentMethod: null },
+  },
+]
+
+function loadFixture(name: string, userId: string, runId: string) {
+  const raw = readFileSync(path.join(__dirname, 'fixtures', 'stripe', `${name}.json`), 'utf8')
+  const event = JSON.parse(raw.replaceAll('{{USER_ID}}', userId))
+  // Unique ids per run so earlier runs don't make every event a duplicate, and
+  // invoices from earlier runs are not claimed by this run's user
+  event.id = `${event.id}_${runId}`
+  if (event.data.object.object === 'invoice') event.data.object.id = `${event.data.object.id}_${runId}`
+  return JSON.stringify(event)
+}
+
+async function main() {
+  if (!secret) throw new Error('STRIPE_WEBHOOK_SECRET must be set to the same value the app uses')
+
+  const holder = await prisma.user.findUnique({ where: { stripeCustomerId: FIXTURE_CUSTOMER } })
+  if (holder) throw new Error(`${holder.email} already has the fixture customer ${FIXTURE_CUSTOMER}; clear its stripeCustomerId first`)
+
+  const runId = Date.now().toString(36)
+  const user = await prisma.user.create({
+    data: { email: `stripe-replay-${runId}@example.com`, name: 'Stripe replay', emailVerified: new Date() },
+  })
+
+  let failures: number
+  try {
+    failures = await replay(user.id, runId, secret)
+  } finally {
+    // Invoices outlive their user on purpose, so they are removed first
+    await prisma.invoice.deleteMany({ where: { userId: user.id } })
+    await prisma.user.delete({ where: { id: user.id } })
+  }
+
+  if (failures) {
+    console.error(`\n${failures} of ${SCENARIO.length} steps failed`)
+    process.exit(1)
+  }
+  console.log(`\nAll ${SCENARIO.length} steps passed`)
+}
+
+async function replay(userId: string, runId: string, secret: string) {
+  let failures = 0
+
+  for (const step of SCENARIO) {
+    const payload = loadFixture(step.fixture, userId, runId)
+    const signature = Stripe.webhooks.generateTestHeaderString({ payload, secret })
+
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Stripe-Signature': signature },
+      body: payload,
+    })
+    const body = await response.json()
+    const current = await prisma.user.findUniqueOrThrow({ where: { id: userId } })
+
+    const problems: string[] = []
+    if (!response.ok) problems.push(`HTTP ${response.status}: ${JSON.stringify(body)}`)
+    if (Boolean(step.duplicate) !== Boolean(body.duplicate)) problems.push(`expected duplicate=${Boolean(step.duplicate)}`)
+    for (const [field, expected] of Object.entries(step.expect ?? {})) {
+      const actual = (current as Record<string, unknown>)[field]
+      if (actual !== expected) problems.push(`${field}: expected ${expected}, got ${actual}`)
+    }
+
+    failures += problems.length ? 1 : 0
+    console.log(`${problems.length ? '❌' : '✅'} ${step.fixture}${step.duplicate ? ' (redelivery)' : ''}`)
+    problems.forEach((problem) => console.log(`   ${problem}`))
+  }
+  return failures
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Replay failed:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -0,0 +1,39 @@
+import { PrismaClient } from '@prisma/client'
+import { isRole, ROLES } from '../lib/roles'
+
+// Grants a staff role from the command line, e.g. to bootstrap the first admin:
+//
+//   pnpm run user:role alice@example.com admin
+
+const prisma = new PrismaClient()
+
+async function main() {
+  const [email, role] = process.argv.slice(2)
+  if (!email || !isRole(role)) {
+    throw new Error(`Usage: pnpm run user:role <email> <${ROLES.join('|')}>`)
+  }
+
+  const user = await prisma.user.findUnique({ where: { email } })
+  if (!user) throw new Error(`No user with email ${email}`)
+
+  await prisma.user.update({ where: { id: user.id }, data: { role } })
+  await prisma.auditLog.create({
+    data: {
+      action: 'user.role_change',
+      targetId: user.id,
+      reason: 'Set from the command line',
+      details: JSON.stringify({ from: user.role, to: role }),
+    },
+  })
+
+  console.log(`✅ ${email}: ${user.role} → ${role}`)
+}
+
+main()
+  .catch((e) => {
+    console.error('❌', e instanceof Error ? e.message : e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })